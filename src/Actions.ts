@@ -0,0 +1,157 @@
+import { Model, unwrapModel } from './Model';
+import { batch } from './Batch';
+
+export interface AsyncActionOptions {
+    /**
+     * Cancels the in-flight calls when the method is called again. Cancelled calls resolve to undefined and their errors are ignored.
+     * @see {@link Model.actionSignal()} to abort the work done by cancelled calls.
+     */
+    readonly cancelSuperseded?: boolean;
+
+    /**
+     * Rejects the returned promise when the method fails. By default the error is only passed to the model's error handler
+     * and stored in {@link Model.lastError()}, and the returned promise resolves to undefined.
+     */
+    readonly rethrow?: boolean;
+}
+
+type ActionCall = { controller: AbortController | null, cancelled: boolean };
+
+export type ActionState = {
+    calls: Set<ActionCall>;
+    latest: ActionCall | null;
+    error: any;
+};
+
+const states = new WeakMap<Model, Map<string, ActionState>>();
+
+export function getActionState(model: Model, methodName: string): ActionState | undefined {
+    return states.get(model)?.get(methodName);
+}
+
+/**
+ * Method decorator which runs the method inside a {@link batch()}, so listeners are notified of all its changes together.
+ */
+export function action<T extends Model>(target: T, propertyKey: string, descriptor: PropertyDescriptor): any {
+    const method = descriptor.value;
+    if (typeof method !== 'function') {
+        throw new Error(`@action can only be applied to methods (${target.constructor.name}.${propertyKey})`);
+    }
+
+    return {
+        ...descriptor,
+        value(...args: any[]) {
+            return batch(() => method.apply(unwrapModel(this), args));
+        },
+    };
+}
+
+/**
+ * Method decorator which tracks calls to an async method so {@link Model.isPending()} and {@link Model.lastError()} can be observed.
+ * Errors thrown by the method are passed to the model's error handler.
+ * @param options Options for how to handle errors and repeated calls.
+ */
+export function asyncAction(options?: AsyncActionOptions) {
+    return <T extends Model>(target: T, propertyKey: string, descriptor: PropertyDescriptor): any => {
+        const method = descriptor.value;
+        if (typeof method !== 'function') {
+            throw new Error(`@asyncAction can only be applied to methods (${target.constructor.name}.${propertyKey})`);
+        }
+
+        return {
+            ...descriptor,
+            value(this: T, ...args: any[]) {
+                // calls made through the tracking proxy of useModel must update the state of the model itself
+                const model = unwrapModel(this);
+                const state = requireActionState(model, propertyKey);
+                if (options?.cancelSuperseded) {
+                    for (const call of state.calls) {
+                        call.cancelled = true;
+                        call.controller?.abort();
+                    }
+                }
+
+                const call: ActionCall = {
+                    controller: typeof AbortController === 'function' ? new AbortController() : null,
+                    cancelled: false,
+                };
+
+                const changedProps: string[] = [];
+                if (state.calls.size === 0) {
+                    changedProps.push('isPending');
+                }
+
+                if (state.error !== undefined) {
+                    changedProps.push('lastError');
+                }
+
+                state.calls.add(call);
+                state.latest = call;
+                state.error = undefined;
+
+                if (changedProps.length > 0) {
+                    model.notifyListeners(...changedProps);
+                }
+
+                let result: Promise<any>;
+                try {
+                    result = Promise.resolve(method.apply(model, args));
+                } catch (e) {
+                    result = Promise.reject(e);
+                }
+
+                return result.then(
+                    value => {
+                        complete(model, state, call, undefined);
+                        return call.cancelled ? undefined : value;
+                    },
+                    error => {
+                        complete(model, state, call, error);
+                        if (!call.cancelled && options?.rethrow) {
+                            throw error;
+                        }
+
+                        return undefined;
+                    });
+            },
+        };
+    };
+}
+
+function requireActionState(model: Model, methodName: string): ActionState {
+    let modelStates = states.get(model);
+    if (!modelStates) {
+        modelStates = new Map();
+        states.set(model, modelStates);
+    }
+
+    let state = modelStates.get(methodName);
+    if (!state) {
+        state = { calls: new Set(), latest: null, error: undefined };
+        modelStates.set(methodName, state);
+    }
+
+    return state;
+}
+
+function complete(model: Model, state: ActionState, call: ActionCall, error: any) {
+    state.calls.delete(call);
+    if (state.latest === call) {
+        state.latest = null;
+    }
+
+    const changedProps: string[] = [];
+    if (state.calls.size === 0) {
+        changedProps.push('isPending');
+    }
+
+    if (error !== undefined && !call.cancelled) {
+        state.error = error;
+        changedProps.push('lastError');
+        model['handleError'](error, 'action');
+    }
+
+    if (changedProps.length > 0) {
+        model.notifyListeners(...changedProps);
+    }
+}
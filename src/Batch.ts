@@ -0,0 +1,142 @@
+import type { Model } from './Model';
+import { discardReactionChange } from './Reactions';
+
+export interface BatchOptions {
+    /**
+     * Reverts all {@link watch()}ed fields changed inside the batch to their previous values if the callback throws.
+     * When disabled (default), changes made before the error are kept and listeners are notified of them.
+     */
+    readonly rollbackOnError?: boolean;
+}
+
+type BatchFrame = {
+    notifications: Map<Model, Set<string>>;
+    changes: Map<Model, Map<string | symbol, any>> | null;
+    rollingBack: boolean;
+};
+
+const frames: BatchFrame[] = [];
+
+/**
+ * Runs the callback while holding back listener notifications for every model.
+ * Listeners are notified once, with all props changed inside the callback, when the outermost batch completes.
+ * @param fn The callback which changes models.
+ * @param options Options for how to handle errors thrown by the callback.
+ * @returns The return value of {@link fn}.
+ */
+export function batch<T>(fn: () => T, options?: BatchOptions): T {
+    const frame: BatchFrame = {
+        notifications: new Map(),
+        changes: options?.rollbackOnError ? new Map() : null,
+        rollingBack: false,
+    };
+
+    frames.push(frame);
+
+    let result: T;
+    try {
+        result = fn();
+    } catch (e) {
+        if (frame.changes) {
+            rollback(frame);
+            frame.notifications.clear();
+        }
+
+        completeFrame(frame);
+        throw e;
+    }
+
+    completeFrame(frame);
+    return result;
+}
+
+/**
+ * Checks if a batch is currently running.
+ */
+export function isBatching() {
+    return frames.length > 0;
+}
+
+/**
+ * Defers the notification to the end of the outermost batch.
+ * @returns True if a batch is running and the notification was deferred.
+ */
+export function deferNotification(model: Model, propNames: string[]): boolean {
+    if (frames.length === 0) {
+        return false;
+    }
+
+    const notifications = frames[frames.length - 1].notifications;
+    let props = notifications.get(model);
+    if (!props) {
+        props = new Set();
+        notifications.set(model, props);
+    }
+
+    if (propNames.length === 0) {
+        props.add('*');
+    } else {
+        for (const propName of propNames) {
+            props.add(propName);
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Checks if a batch which rolls back on error is running, so changes need to be recorded.
+ */
+export function isRecordingChanges() {
+    return frames.some(frame => frame.changes !== null && !frame.rollingBack);
+}
+
+/**
+ * Records the value a field had before it was first changed inside batches which roll back on error.
+ */
+export function recordChange(model: Model, propertyKey: string | symbol, previousValue: any) {
+    for (const frame of frames) {
+        if (!frame.changes || frame.rollingBack) {
+            continue;
+        }
+
+        let changes = frame.changes.get(model);
+        if (!changes) {
+            changes = new Map();
+            frame.changes.set(model, changes);
+        }
+
+        if (!changes.has(propertyKey)) {
+            changes.set(propertyKey, previousValue);
+        }
+    }
+}
+
+function rollback(frame: BatchFrame) {
+    frame.rollingBack = true;
+    for (const [model, changes] of frame.changes!) {
+        for (const [propertyKey, previousValue] of changes) {
+            model[propertyKey] = previousValue;
+
+            if (typeof propertyKey === 'string') {
+                discardReactionChange(model, propertyKey, previousValue);
+            }
+        }
+    }
+}
+
+function completeFrame(frame: BatchFrame) {
+    frames.pop();
+
+    if (frames.length > 0) {
+        for (const [model, props] of frame.notifications) {
+            deferNotification(model, props.has('*') ? [] : [...props]);
+        }
+
+        return;
+    }
+
+    for (const [model, props] of frame.notifications) {
+        model['scheduleNotification'](props.has('*') ? [] : [...props]);
+    }
+}
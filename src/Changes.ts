@@ -0,0 +1,79 @@
+import { Model, unwrapModel } from './Model';
+
+export type FieldChangeCallback = (model: Model, propertyKey: string | symbol, previousValue: any, newValue: any) => void;
+
+/**
+ * Receives every field change and delivered notification from all models.
+ */
+export interface GlobalChangeObserver {
+    fieldChanged: FieldChangeCallback;
+    notified(model: Model, props: ReadonlySet<string>, version: number): void;
+}
+
+const observers = new WeakMap<Model, FieldChangeCallback[]>();
+let globalObservers: GlobalChangeObserver[] = [];
+
+/**
+ * Calls the callback with the previous and new value whenever a {@link watch()}ed field on the model is changed.
+ * @returns A function which stops observing the model.
+ */
+export function observeChanges(model: Model, callback: FieldChangeCallback): () => void {
+    model = unwrapModel(model);
+    observers.set(model, [...(observers.get(model) ?? []), callback]);
+
+    return () => {
+        const callbacks = observers.get(model)?.filter(c => c !== callback) ?? [];
+        if (callbacks.length > 0) {
+            observers.set(model, callbacks);
+        } else {
+            observers.delete(model);
+        }
+    };
+}
+
+/**
+ * Checks if anything observes the changes made to the model.
+ */
+export function isObservingChanges(model: Model): boolean {
+    return globalObservers.length > 0 || observers.has(unwrapModel(model));
+}
+
+/**
+ * Passes a change to a {@link watch()}ed field on to everything observing the model.
+ */
+export function reportChange(model: Model, propertyKey: string | symbol, previousValue: any, newValue: any) {
+    model = unwrapModel(model);
+    for (const observer of globalObservers) {
+        observer.fieldChanged(model, propertyKey, previousValue, newValue);
+    }
+
+    const callbacks = observers.get(model);
+    if (!callbacks) {
+        return;
+    }
+
+    for (const callback of callbacks) {
+        callback(model, propertyKey, previousValue, newValue);
+    }
+}
+
+/**
+ * Starts passing changes from all models to the observer.
+ * @returns A function which stops observing.
+ */
+export function observeAllChanges(observer: GlobalChangeObserver): () => void {
+    globalObservers = [...globalObservers, observer];
+
+    return () => {
+        globalObservers = globalObservers.filter(o => o !== observer);
+    };
+}
+
+/**
+ * Passes a notification which is about to be delivered to the model's listeners on to the global observers.
+ */
+export function reportNotification(model: Model, props: ReadonlySet<string>, version: number) {
+    for (const observer of globalObservers) {
+        observer.notified(model, props, version);
+    }
+}
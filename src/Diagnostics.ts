@@ -0,0 +1,121 @@
+import { useRef } from 'react';
+import type { Model } from './Model';
+
+export interface ListenerDiagnosticsOptions {
+    /**
+     * The number of listeners a model can have before a leak is reported. Defaults to 100.
+     * @see {@link Model.maxListeners} to override this for a model type.
+     */
+    readonly maxListeners?: number;
+
+    /**
+     * Captures the stack trace where each listener is added so leaks can be traced back to their origin.
+     * This is expensive and should only be enabled during development.
+     */
+    readonly captureStackTraces?: boolean;
+}
+
+export interface ListenerReportEntry {
+    /**
+     * The stack trace where the listeners were added, or null if stack traces were not captured.
+     */
+    readonly origin: string | null;
+
+    /**
+     * The props the listeners are tracking, or null if they listen to all changes.
+     */
+    readonly props: readonly string[] | null;
+
+    /**
+     * The number of live listeners with this origin and props.
+     */
+    readonly count: number;
+}
+
+let maxListeners = 100;
+let captureStackTraces = false;
+
+/**
+ * Configures how listener leaks are detected for all models.
+ */
+export function configureListenerDiagnostics(options: ListenerDiagnosticsOptions) {
+    maxListeners = options.maxListeners ?? maxListeners;
+    captureStackTraces = options.captureStackTraces ?? captureStackTraces;
+}
+
+export function getMaxListeners(model: Model): number {
+    return (model.constructor as typeof Model).maxListeners ?? maxListeners;
+}
+
+/**
+ * Captures the stack trace of the code adding a listener, if enabled.
+ */
+export function captureListenerOrigin(): string | null {
+    if (!captureStackTraces) {
+        return null;
+    }
+
+    const stack = new Error().stack;
+    if (!stack) {
+        return null;
+    }
+
+    // drop the error message and the frames inside this library which add the listener
+    return stack
+        .split('\n')
+        .slice(1)
+        .filter(line => !/\b(captureListenerOrigin|useListenerOrigin|addListener)\b/.test(line))
+        .map(line => line.trim())
+        .join('\n');
+}
+
+/**
+ * Captures the stack trace of the component using the hook when it mounts, if enabled. Hooks subscribe to models after rendering,
+ * so the stack trace captured by {@link Model.addListener()} would not contain the component.
+ */
+export function useListenerOrigin(): string | null {
+    // captured directly in the hook so the component is within the captured frames
+    const origin = useRef<string | null | undefined>(undefined);
+    if (origin.current === undefined) {
+        origin.current = captureListenerOrigin();
+    }
+
+    return origin.current;
+}
+
+/**
+ * Groups the live listeners of the model by where they were added and the props they track, largest groups first.
+ * @remarks Origins are only available while stack traces are captured, see {@link configureListenerDiagnostics()}.
+ */
+export function getListenerReport(model: Model): ListenerReportEntry[] {
+    const groups: Map<string, { origin: string | null, props: string[] | null, count: number }> = new Map();
+
+    for (const [, props, origin] of model['listeners'] as [any, Set<string> | null, string | null][]) {
+        const sortedProps = props ? [...props].sort() : null;
+        const key = JSON.stringify([origin, sortedProps]);
+
+        const group = groups.get(key);
+        if (group) {
+            group.count++;
+        } else {
+            groups.set(key, { origin, props: sortedProps, count: 1 });
+        }
+    }
+
+    return [...groups.values()].sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Builds the message reported when a model has too many listeners.
+ */
+export function describeListenerLeak(model: Model): string {
+    const listenerCount = model['listeners'].length;
+    const message = `Too many listeners on ${model.constructor.name} (${listenerCount})`;
+
+    const [largest] = getListenerReport(model);
+    if (!largest || largest.origin === null) {
+        return message;
+    }
+
+    return `${message}, ${largest.count} of them were added from:\n${largest.origin}`;
+}
@@ -0,0 +1,62 @@
+import isEqual from 'lodash-es/isEqual';
+
+/**
+ * Compares values deeply. Objects with an `equals()` method are compared with it, and Dates are equal to Dates with the same time or
+ * to numbers holding the same unix timestamp (in seconds).
+ */
+export function deepEqual(x: any, y: any): boolean {
+    // for any class that has an equals method - x.equals(y)
+    if (x !== null &&
+        y !== null &&
+        typeof x === 'object' &&
+        typeof y === 'object' &&
+        x.constructor === y.constructor &&
+        typeof x['equals'] === 'function'
+    ) {
+        return !!x['equals'](y);
+    }
+
+    if (x instanceof Date) {
+        if (y instanceof Date) {
+            return x.valueOf() === y.valueOf();
+        }
+
+        if (typeof y === 'number') {
+            return x.valueOf() === (y * 1000); // assume numbers are unix timestamps (in seconds)
+        }
+    }
+
+    return isEqual(x, y);
+}
+
+/**
+ * Compares arrays, Maps, Sets, Dates and plain objects by their items, and everything else by identity.
+ */
+export function shallowEqual(x: any, y: any): boolean {
+    if (Object.is(x, y)) {
+        return true;
+    }
+
+    if (x === null || y === null || typeof x !== 'object' || typeof y !== 'object' || Object.getPrototypeOf(x) !== Object.getPrototypeOf(y)) {
+        return false;
+    }
+
+    if (x instanceof Date) {
+        return x.valueOf() === y.valueOf();
+    }
+
+    if (Array.isArray(x)) {
+        return x.length === y.length && x.every((item, i) => Object.is(item, y[i]));
+    }
+
+    if (x instanceof Map) {
+        return x.size === y.size && [...x].every(([key, value]) => y.has(key) && Object.is(value, y.get(key)));
+    }
+
+    if (x instanceof Set) {
+        return x.size === y.size && [...x].every(value => y.has(value));
+    }
+
+    const keys = Object.keys(x);
+    return keys.length === Object.keys(y).length && keys.every(key => Object.prototype.hasOwnProperty.call(y, key) && Object.is(x[key], y[key]));
+}
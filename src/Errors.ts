@@ -0,0 +1,109 @@
+import type { Model } from './Model';
+
+/**
+ * Where an error happened:
+ * - 'listener': a listener callback threw, or a listener was added incorrectly
+ * - 'reaction': a {@link reaction()} method threw
+ * - 'action': an {@link asyncAction()} method failed
+ * - 'lifecycle': {@link Model.onActivate()} or {@link Model.onDeactivate()} threw
+ * - 'validation': a validator threw
+ * - 'deserialization': incoming data could not be deserialized or failed validation
+ * - 'leak': a model has more listeners than allowed
+ * - 'model': the model's own code passed the error to {@link Model.handleError()} without a phase
+ */
+export type ErrorPhase = 'listener' | 'reaction' | 'action' | 'lifecycle' | 'validation' | 'deserialization' | 'leak' | 'model';
+
+export interface ModelErrorInfo {
+    /**
+     * The model the error happened in, or null if it happened outside of a model (e.g. deserializing a nested object).
+     */
+    readonly model: Model | null;
+
+    readonly phase: ErrorPhase;
+}
+
+export type ModelErrorHandler = (error: any, info: ModelErrorInfo) => void;
+
+export interface ErrorHandlingOptions {
+    /**
+     * Rethrows errors from these phases (or all phases if true) while rendering the components watching the model, so the nearest
+     * React error boundary can handle them. Defaults to false.
+     */
+    readonly rethrowToBoundary?: boolean | readonly ErrorPhase[];
+}
+
+type ErrorSink = (error: any) => void;
+
+let handlers: ModelErrorHandler[] = [];
+let rethrowToBoundary: boolean | readonly ErrorPhase[] = false;
+const sinks = new WeakMap<Model, Set<ErrorSink>>();
+
+/**
+ * Configures what happens to errors after the error handlers received them.
+ */
+export function configureErrorHandling(options: ErrorHandlingOptions) {
+    rethrowToBoundary = options.rethrowToBoundary ?? rethrowToBoundary;
+}
+
+/**
+ * Adds a handler which receives the errors of all models, e.g. to send them to crash reporting.
+ * Errors are logged with console.error while no handlers are added.
+ * @returns A function which removes the handler.
+ */
+export function addErrorHandler(handler: ModelErrorHandler): () => void {
+    handlers = [...handlers, handler];
+
+    return () => {
+        handlers = handlers.filter(h => h !== handler);
+    };
+}
+
+/**
+ * Passes the error to the model's error handler, or to the global error handlers if there is no model.
+ */
+export function reportError(model: Model | null, phase: ErrorPhase, error: any) {
+    if (model) {
+        model['handleError'](error, phase);
+    } else {
+        dispatchError(null, phase, error);
+    }
+}
+
+/**
+ * Passes the error to the global error handlers, then rethrows it in the components watching the model if configured.
+ */
+export function dispatchError(model: Model | null, phase: ErrorPhase, error: any) {
+    if (handlers.length === 0) {
+        console.error(error);
+    }
+
+    for (const handler of handlers) {
+        try {
+            handler(error, { model, phase });
+        } catch (e) {
+            console.error(e);
+        }
+    }
+
+    const rethrow = Array.isArray(rethrowToBoundary) ? rethrowToBoundary.includes(phase) : rethrowToBoundary === true;
+    if (rethrow && model) {
+        for (const sink of [...(sinks.get(model) ?? [])]) {
+            sink(error);
+        }
+    }
+}
+
+/**
+ * Registers a function which rethrows errors of the model inside a component, for {@link ErrorHandlingOptions.rethrowToBoundary}.
+ * @returns A function which removes the sink.
+ */
+export function addErrorSink(model: Model, sink: ErrorSink): () => void {
+    let modelSinks = sinks.get(model);
+    if (!modelSinks) {
+        modelSinks = new Set();
+        sinks.set(model, modelSinks);
+    }
+
+    modelSinks.add(sink);
+    return () => modelSinks!.delete(sink);
+}
@@ -0,0 +1,171 @@
+import { useCallback, useMemo, useRef } from 'react';
+import { Model, unwrapModel } from './Model';
+import { useSyncExternalStore } from './SyncExternalStore';
+import { unwrapValue } from './Observable';
+import { batch } from './Batch';
+import { getErrors } from './Validation';
+import { useListenerOrigin } from './Diagnostics';
+
+export type FieldBinding<T> = {
+    /**
+     * The current value of the field.
+     */
+    readonly value: T;
+
+    /**
+     * Sets the field from a change event of a web input (using `checked` for checkboxes), a React Native `TextInput`, or a plain value.
+     */
+    readonly onChange: (eventOrValue: any) => void;
+
+    /**
+     * Sets the field to the text, for React Native's `TextInput`.
+     */
+    readonly onChangeText: (text: string) => void;
+
+    /**
+     * Marks the field as touched.
+     */
+    readonly onBlur: () => void;
+
+    /**
+     * True once the input bound to the field lost focus.
+     */
+    readonly touched: boolean;
+
+    /**
+     * True if the value is different from the value the field had when it was first bound, or when {@link resetFields()} was last called.
+     */
+    readonly dirty: boolean;
+
+    /**
+     * The validation error of the field.
+     * @see {@link validate()} and the other validation decorators.
+     */
+    readonly error: string | undefined;
+};
+
+type FieldState = { initial: any, touched: boolean, listeners: Set<() => void> };
+type FieldSnapshot = { value: any, touched: boolean, dirty: boolean, error: string | undefined };
+
+const fieldStates = new WeakMap<Model, Map<string, FieldState>>();
+
+/**
+ * Binds an input to a {@link watch()}ed field of the model. The component only re-renders when the field, its validation error
+ * or its touched state change.
+ * @param model The model. Models returned by `useModel` or `watchModel` are unwrapped so reading the field does not track it twice.
+ * @param propName The name of the field.
+ */
+export function useField<T extends Model, K extends keyof T & string>(model: T, propName: K): FieldBinding<T[K]> {
+    // bypass the tracking proxy of useModel, otherwise the whole component would track the field again
+    const target = unwrapModel(model);
+    const snapshot = useRef<FieldSnapshot | null>(null);
+    const origin = useListenerOrigin();
+
+    const subscribe = useCallback((onStoreChange: () => void) => {
+        const state = getFieldState(target, propName);
+        state.listeners.add(onStoreChange);
+        target.addListener(onStoreChange, new Set([propName, 'errors']), origin);
+
+        return () => {
+            state.listeners.delete(onStoreChange);
+            target.removeListener(onStoreChange);
+        };
+    }, [target, propName]);
+
+    const getSnapshot = () => {
+        const state = getFieldState(target, propName);
+        const value = target[propName];
+        const next: FieldSnapshot = {
+            value,
+            touched: state.touched,
+            dirty: unwrapValue(value) !== unwrapValue(state.initial),
+            error: getErrors(target).get(propName),
+        };
+
+        const previous = snapshot.current;
+        if (previous && previous.value === next.value && previous.touched === next.touched &&
+            previous.dirty === next.dirty && previous.error === next.error) {
+            return previous;
+        }
+
+        snapshot.current = next;
+        return next;
+    };
+
+    const current = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+    const onChangeText = useCallback((text: string) => {
+        batch(() => target[propName] = text as any);
+    }, [target, propName]);
+
+    const onChange = useCallback((eventOrValue: any) => {
+        batch(() => target[propName] = getChangedValue(eventOrValue));
+    }, [target, propName]);
+
+    const onBlur = useCallback(() => {
+        const state = getFieldState(target, propName);
+        if (!state.touched) {
+            state.touched = true;
+            state.listeners.forEach(listener => listener());
+        }
+    }, [target, propName]);
+
+    return useMemo(() => ({
+        value: current.value,
+        onChange,
+        onChangeText,
+        onBlur,
+        touched: current.touched,
+        dirty: current.dirty,
+        error: current.error,
+    }), [current, onChange, onChangeText, onBlur]);
+}
+
+/**
+ * Makes the current values of the model's bound fields their initial values and marks them as untouched, e.g. after a form is saved.
+ * @param model The model, or the value returned for it by `useModel` or `watchModel`.
+ */
+export function resetFields(model: Model) {
+    model = unwrapModel(model);
+    for (const [propName, state] of fieldStates.get(model) ?? []) {
+        state.initial = model[propName];
+        state.touched = false;
+        state.listeners.forEach(listener => listener());
+    }
+}
+
+function getFieldState(model: Model, propName: string): FieldState {
+    let modelStates = fieldStates.get(model);
+    if (!modelStates) {
+        modelStates = new Map();
+        fieldStates.set(model, modelStates);
+    }
+
+    let state = modelStates.get(propName);
+    if (!state) {
+        state = { initial: model[propName], touched: false, listeners: new Set() };
+        modelStates.set(propName, state);
+    }
+
+    return state;
+}
+
+function getChangedValue(eventOrValue: any): any {
+    if (eventOrValue === null || typeof eventOrValue !== 'object') {
+        return eventOrValue;
+    }
+
+    // web change events
+    const target = eventOrValue.target;
+    if (target && typeof target === 'object' && 'value' in target) {
+        return target.type === 'checkbox' ? target.checked : target.value;
+    }
+
+    // React Native TextInput change events
+    const nativeEvent = eventOrValue.nativeEvent;
+    if (nativeEvent && typeof nativeEvent === 'object' && 'text' in nativeEvent) {
+        return nativeEvent.text;
+    }
+
+    return eventOrValue;
+}
@@ -0,0 +1,220 @@
+import { computed, Model, unwrapModel, watch } from './Model';
+import { batch } from './Batch';
+import { action } from './Actions';
+import { observeChanges } from './Changes';
+
+export interface HistoryOptions {
+    /**
+     * The maximum number of entries which can be undone. The oldest entries are discarded first. Defaults to 100.
+     */
+    readonly limit?: number;
+}
+
+export interface HistoryChange {
+    readonly model: Model;
+    readonly prop: string | symbol;
+    readonly previousValue: any;
+    readonly newValue: any;
+}
+
+export interface HistoryEntry {
+    /**
+     * The name given to the group of changes, if they were made inside {@link History.group()}.
+     */
+    readonly name: string | undefined;
+    readonly changes: readonly HistoryChange[];
+}
+
+/**
+ * Records changes to the {@link watch()}ed fields of the attached models so they can be undone and redone.
+ * @remarks This is a model itself, so components can watch it to update undo/redo buttons.
+ */
+export class History extends Model {
+    @watch
+    private undoStack: readonly HistoryEntry[] = [];
+
+    @watch
+    private redoStack: readonly HistoryEntry[] = [];
+
+    private readonly limit: number;
+    private attached: Map<Model, () => void> = new Map();
+    private pending: { name: string, changes: HistoryChange[] } | null = null;
+    private applying: boolean = false;
+
+    constructor(models: Model | Model[] = [], options?: HistoryOptions) {
+        super();
+        this.limit = options?.limit ?? 100;
+
+        for (const model of Array.isArray(models) ? models : [models]) {
+            this.attach(model);
+        }
+    }
+
+    @computed
+    public get canUndo() {
+        return this.undoStack.length > 0;
+    }
+
+    @computed
+    public get canRedo() {
+        return this.redoStack.length > 0;
+    }
+
+    /**
+     * The name of the entry which would be undone next.
+     */
+    @computed
+    public get undoName() {
+        return this.undoStack[this.undoStack.length - 1]?.name;
+    }
+
+    /**
+     * The name of the entry which would be redone next.
+     */
+    @computed
+    public get redoName() {
+        return this.redoStack[this.redoStack.length - 1]?.name;
+    }
+
+    /**
+     * Starts recording changes made to the model.
+     */
+    public attach(model: Model) {
+        model = unwrapModel(model);
+        if (this.attached.has(model)) {
+            return;
+        }
+
+        const stop = observeChanges(model, (model, prop, previousValue, newValue) => {
+            this.record({ model, prop, previousValue, newValue });
+        });
+
+        this.attached.set(model, stop);
+    }
+
+    /**
+     * Stops recording changes made to the model. Entries which were already recorded are kept.
+     */
+    public detach(model: Model) {
+        model = unwrapModel(model);
+        this.attached.get(model)?.();
+        this.attached.delete(model);
+    }
+
+    /**
+     * Stops recording changes to all models and discards all entries.
+     */
+    public dispose() {
+        for (const model of [...this.attached.keys()]) {
+            this.detach(model);
+        }
+
+        this.clear();
+        super.dispose();
+    }
+
+    /**
+     * Discards all entries.
+     */
+    @action
+    public clear() {
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+
+    /**
+     * Runs the callback and records all changes made inside it as a single named entry.
+     * @remarks Groups started inside another group are merged into the outer one.
+     */
+    public group<T>(name: string, fn: () => T): T {
+        if (this.pending) {
+            return fn();
+        }
+
+        const pending = { name, changes: [] as HistoryChange[] };
+        this.pending = pending;
+
+        try {
+            return batch(fn);
+        } finally {
+            this.pending = null;
+            if (pending.changes.length > 0) {
+                this.push({ name, changes: pending.changes });
+            }
+        }
+    }
+
+    /**
+     * Reverts the most recent entry.
+     * @returns True if there was an entry to undo.
+     */
+    @action
+    public undo(): boolean {
+        const entry = this.undoStack[this.undoStack.length - 1];
+        if (!entry) {
+            return false;
+        }
+
+        this.apply(() => {
+            for (let i = entry.changes.length - 1; i >= 0; i--) {
+                const { model, prop, previousValue } = entry.changes[i];
+                model[prop] = previousValue;
+            }
+        });
+
+        this.undoStack = this.undoStack.slice(0, -1);
+        this.redoStack = [...this.redoStack, entry];
+        return true;
+    }
+
+    /**
+     * Re-applies the most recently undone entry.
+     * @returns True if there was an entry to redo.
+     */
+    @action
+    public redo(): boolean {
+        const entry = this.redoStack[this.redoStack.length - 1];
+        if (!entry) {
+            return false;
+        }
+
+        this.apply(() => {
+            for (const { model, prop, newValue } of entry.changes) {
+                model[prop] = newValue;
+            }
+        });
+
+        this.redoStack = this.redoStack.slice(0, -1);
+        this.undoStack = [...this.undoStack, entry];
+        return true;
+    }
+
+    private record(change: HistoryChange) {
+        if (this.applying) {
+            return;
+        }
+
+        if (this.pending) {
+            this.pending.changes.push(change);
+        } else {
+            this.push({ name: undefined, changes: [change] });
+        }
+    }
+
+    private push(entry: HistoryEntry) {
+        this.undoStack = [...this.undoStack, entry].slice(-this.limit);
+
+        if (this.redoStack.length > 0) {
+            this.redoStack = [];
+        }
+    }
+
+    private apply(fn: () => void) {
+        this.applying = true;
+        try {
+            batch(fn);
+        } finally {
+            this.applying = false;
+        }
+    }
+}
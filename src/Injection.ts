@@ -0,0 +1,105 @@
+import { Context, createContext } from 'react';
+import type { Model } from './Model';
+import type { Constructor } from './Persistence/CommonTypes';
+
+/**
+ * The models provided by a provider component, linked to the models provided by its ancestors.
+ */
+export type Injector = {
+    readonly models: readonly Model[];
+    readonly parent: Injector | null;
+};
+
+export const InjectorContext = createContext<Injector | null>(null);
+InjectorContext.displayName = 'ModelInjector';
+
+const modelContexts: Map<Function, Context<any>> = new Map();
+const injectors: (Injector | null)[] = [];
+const globalModels: Map<Function, () => Model> = new Map();
+
+export function registerModelContext(ctor: Function, context: Context<any>) {
+    modelContexts.set(ctor, context);
+}
+
+export function registerGlobalModel(ctor: Function, get: () => Model) {
+    globalModels.set(ctor, get);
+}
+
+/**
+ * Finds the context created by {@link defineModel()} for the type of the model, or any of its base types.
+ */
+export function findModelContext(model: Model): Context<any> | undefined {
+    let prototype = Object.getPrototypeOf(model);
+    while (prototype) {
+        const context = modelContexts.get(prototype.constructor);
+        if (context) {
+            return context;
+        }
+
+        prototype = Object.getPrototypeOf(prototype);
+    }
+
+    return undefined;
+}
+
+/**
+ * Runs the function so that calls to {@link inject()} inside it resolve models from the injector.
+ */
+export function withInjector<T>(injector: Injector | null, fn: () => T): T {
+    injectors.push(injector);
+    try {
+        return fn();
+    } finally {
+        injectors.pop();
+    }
+}
+
+/**
+ * Gets the nearest provided instance of a model type. This can only be called while a model is being created, e.g. in a field initializer or constructor.
+ * @param ctor The type of the model to get.
+ * @remarks Models are resolved from ModelScope and ModelProviders ancestors of the component creating the model, or from {@link createWithDependencies()}.
+ * Models defined with {@link defineGlobalModel()} fall back to their global instance.
+ */
+export function inject<T extends Model>(ctor: Constructor<T>): T {
+    if (injectors.length === 0) {
+        throw new Error(`inject: ${ctor.name} can only be injected while a model is created by a ModelScope, ModelProviders or createWithDependencies`);
+    }
+
+    let injector = injectors[injectors.length - 1];
+    while (injector) {
+        for (let i = injector.models.length - 1; i >= 0; i--) {
+            const model = injector.models[i];
+            if (model instanceof ctor) {
+                return model;
+            }
+        }
+
+        injector = injector.parent;
+    }
+
+    const global = findGlobalModel(ctor);
+    if (global) {
+        return global;
+    }
+
+    throw new Error(`inject: No provider found for model ${ctor.name}`);
+}
+
+function findGlobalModel<T extends Model>(ctor: Constructor<T>): T | undefined {
+    for (const [globalCtor, get] of globalModels) {
+        if (globalCtor === ctor || globalCtor.prototype instanceof ctor) {
+            return get() as T;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Creates a model outside of React, resolving its {@link inject()}ed dependencies from the given models.
+ * @param models The models which can be injected.
+ * @param create Function which creates the model.
+ */
+export function createWithDependencies<T extends Model>(models: readonly Model[], create: () => T): T {
+    return withInjector({ models, parent: null }, create);
+}
@@ -0,0 +1,273 @@
+import { Model } from './Model';
+import { observeAllChanges } from './Changes';
+import { copyInto } from './Persistence';
+import { getPersistence } from './Persistence/Persistence';
+import { toSerializable } from './Persistence/Serialization';
+
+export interface InspectorChange {
+    readonly prop: string | symbol;
+    readonly previousValue: any;
+    readonly newValue: any;
+}
+
+export interface InspectorRecord {
+    readonly model: Model;
+
+    /**
+     * The class name of the model.
+     */
+    readonly name: string;
+
+    /**
+     * The names of the props listeners were notified about. Contains '*' if the whole model changed.
+     */
+    readonly props: readonly string[];
+
+    /**
+     * The {@link watch()}ed fields which changed since the previous notification.
+     */
+    readonly changes: readonly InspectorChange[];
+
+    readonly version: number;
+    readonly timestamp: number;
+}
+
+/**
+ * Message sent from the devtools to the inspector, as defined by the Redux DevTools extension.
+ */
+export interface DevToolsMessage {
+    readonly type: string;
+    readonly payload?: { readonly type: string };
+    readonly state?: string;
+}
+
+/**
+ * Connection to the Redux DevTools extension (or anything using the same message protocol).
+ */
+export interface DevToolsConnection {
+    init(state: any): void;
+    send(action: any, state: any): void;
+    subscribe(listener: (message: DevToolsMessage) => void): (() => void) | void;
+    unsubscribe?(): void;
+}
+
+export interface InspectorOptions {
+    /**
+     * The maximum number of records kept. The oldest records are discarded first. Defaults to 1000.
+     */
+    readonly limit?: number;
+
+    /**
+     * The devtools connection to stream records to. Set to true to connect to the Redux DevTools browser extension if it is installed.
+     */
+    readonly devTools?: DevToolsConnection | boolean;
+
+    /**
+     * The instance name shown in the devtools.
+     */
+    readonly name?: string;
+}
+
+/**
+ * Records every notification delivered by all models, optionally streaming them to the devtools.
+ * @remarks Only models registered with {@link Inspector.track()} are included in the state sent to the devtools and can have state dispatched back into them.
+ */
+export class Inspector {
+    private readonly limit: number;
+    private readonly devTools: DevToolsConnection | null;
+    private records: InspectorRecord[] = [];
+    private pendingChanges: Map<Model, Map<string | symbol, InspectorChange>> = new Map();
+    private tracked: Map<string, Model> = new Map();
+    private applied: Set<Model> = new Set();
+    private stopObserving: (() => void) | null;
+    private stopListening: (() => void) | null = null;
+
+    constructor(options?: InspectorOptions) {
+        this.limit = options?.limit ?? 1000;
+        this.devTools = options?.devTools === true
+            ? connectToExtension(options?.name)
+            : options?.devTools || null;
+
+        this.stopObserving = observeAllChanges({
+            fieldChanged: (model, prop, previousValue, newValue) => this.fieldChanged(model, prop, previousValue, newValue),
+            notified: (model, props, version) => this.notified(model, props, version),
+        });
+
+        if (this.devTools) {
+            this.devTools.init(this.getState());
+            this.stopListening = this.devTools.subscribe(message => this.receive(message)) || null;
+        }
+    }
+
+    /**
+     * The recorded notifications, oldest first.
+     */
+    public get log(): readonly InspectorRecord[] {
+        return this.records;
+    }
+
+    /**
+     * Includes the model in the state sent to the devtools.
+     * @param model The model to track. It must have fields with the {@link prop()} decorator.
+     * @param key The key of the model in the state. Defaults to the class name of the model.
+     */
+    public track(model: Model, key: string = model.constructor.name) {
+        if (!getPersistence(model)) {
+            throw new Error(`Cannot track ${model.constructor.name} in the inspector - use the @prop decorator to set up its persistence.`);
+        }
+
+        this.tracked.set(key, model);
+    }
+
+    /**
+     * Stops including the model in the state sent to the devtools.
+     */
+    public untrack(model: Model) {
+        for (const [key, value] of this.tracked) {
+            if (value === model) {
+                this.tracked.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Discards all recorded notifications.
+     */
+    public clear() {
+        this.records = [];
+    }
+
+    /**
+     * Stops recording and disconnects from the devtools.
+     */
+    public dispose() {
+        this.stopObserving?.();
+        this.stopObserving = null;
+        this.stopListening?.();
+        this.stopListening = null;
+        this.devTools?.unsubscribe?.();
+        this.pendingChanges.clear();
+        this.applied.clear();
+    }
+
+    /**
+     * Builds the state of all tracked models, as sent to the devtools.
+     */
+    public getState() {
+        const state = {};
+        for (const [key, model] of this.tracked) {
+            state[key] = toSerializable(model);
+        }
+
+        return state;
+    }
+
+    private fieldChanged(model: Model, prop: string | symbol, previousValue: any, newValue: any) {
+        let changes = this.pendingChanges.get(model);
+        if (!changes) {
+            changes = new Map();
+            this.pendingChanges.set(model, changes);
+        }
+
+        const previous = changes.get(prop);
+        changes.set(prop, { prop, previousValue: previous ? previous.previousValue : previousValue, newValue });
+    }
+
+    private notified(model: Model, props: ReadonlySet<string>, version: number) {
+        const changes = this.pendingChanges.get(model);
+        this.pendingChanges.delete(model);
+
+        const record: InspectorRecord = {
+            model,
+            name: model.constructor.name,
+            props: [...props],
+            changes: changes ? [...changes.values()] : [],
+            version,
+            timestamp: Date.now(),
+        };
+
+        this.records.push(record);
+        if (this.records.length > this.limit) {
+            this.records.splice(0, this.records.length - this.limit);
+        }
+
+        // changes dispatched from the devtools are not sent back to them
+        if (this.applied.delete(model)) {
+            return;
+        }
+
+        if (this.devTools) {
+            const action = {
+                type: `${record.name}.${record.props.join(',')}`,
+                version: record.version,
+                changes: record.changes.map(c => ({ ...c, prop: String(c.prop) })),
+            };
+
+            this.devTools.send(action, this.getState());
+        }
+    }
+
+    private receive(message: DevToolsMessage) {
+        if (message.type !== 'DISPATCH' || !message.state) {
+            return;
+        }
+
+        const type = message.payload?.type;
+        if (type !== 'JUMP_TO_STATE' && type !== 'JUMP_TO_ACTION') {
+            return;
+        }
+
+        const state = JSON.parse(message.state);
+        for (const [key, model] of this.tracked) {
+            if (state[key] !== undefined && copyInto(model, state[key])) {
+                this.applied.add(model);
+            }
+        }
+    }
+}
+
+/**
+ * In-process stand-in for the devtools which keeps every message it receives. Useful for tests.
+ */
+export class LocalDevTools implements DevToolsConnection {
+    public state: any = undefined;
+    public actions: any[] = [];
+    private listeners: ((message: DevToolsMessage) => void)[] = [];
+
+    public init(state: any) {
+        this.state = state;
+    }
+
+    public send(action: any, state: any) {
+        this.actions.push(action);
+        this.state = state;
+    }
+
+    public subscribe(listener: (message: DevToolsMessage) => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    /**
+     * Sends a message to the inspector as if it came from the devtools.
+     */
+    public dispatch(message: DevToolsMessage) {
+        for (const listener of this.listeners) {
+            listener(message);
+        }
+    }
+
+    /**
+     * Sends a state snapshot to the inspector as if time travelling in the devtools.
+     */
+    public jumpToState(state: any) {
+        this.dispatch({ type: 'DISPATCH', payload: { type: 'JUMP_TO_STATE' }, state: JSON.stringify(state) });
+    }
+}
+
+function connectToExtension(name: string | undefined): DevToolsConnection | null {
+    const extension = typeof window === 'object' ? window['__REDUX_DEVTOOLS_EXTENSION__'] : undefined;
+    return extension ? extension.connect({ name: name ?? 'react-class-model' }) : null;
+}
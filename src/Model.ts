@@ -2,21 +2,46 @@ import {
     Context,
     createContext,
     useContext,
-    useState,
     ProviderExoticComponent,
     ProviderProps,
+    useCallback,
+    useMemo,
+    useRef,
     useEffect,
-    useMemo
+    useState,
+    createElement,
+    ReactNode,
+    ReactElement
 } from 'react';
 import { Constructor } from './Persistence/CommonTypes';
+import { reportAccess, trackAccess } from './Tracking';
+import { batch, BatchOptions, deferNotification, recordChange } from './Batch';
+import { useSyncExternalStore } from './SyncExternalStore';
+import { reportChange, reportNotification } from './Changes';
+import { enqueue, Scheduler, SchedulerName } from './Scheduler';
+import { notifyNestedOwners, observeNestedModel, observeValue, unobserveValue, unwrapValue } from './Observable';
+import { getActionState } from './Actions';
+import { InjectorContext, registerGlobalModel, registerModelContext, withInjector } from './Injection';
+import { SnapshotContext } from './Snapshot';
+import { captureListenerOrigin, describeListenerLeak, getMaxListeners, useListenerOrigin } from './Diagnostics';
+import { revalidate } from './Validation';
+import { disposeReactionMethods, recordReactionChange, runReactionMethods } from './Reactions';
+import { allowMutations, checkMutation } from './Strict';
+import { invalidateSnapshot } from './StateSnapshot';
+import { addErrorSink, dispatchError, ErrorPhase } from './Errors';
+import { suspendUntilReady } from './Suspense';
 
 const proxiedValue = 'proxiedValue';
-type ListenerCallback = (version: number) => void;
-type Listener = [ListenerCallback, Set<string> | null];
+const computedDependents = new WeakMap<Model, Set<Model>>();
+type ListenerCallback = (version: number, changedProps: ReadonlySet<string>) => void;
+type Listener = [ListenerCallback, Set<string> | null, string | null];
+type ComputedValue = { value: any, dependencies: Map<Model, Set<string>>, stale: boolean };
 type ProxiedValue<T extends Model | null | undefined> = T extends Model ? T & { [proxiedValue]: T } : T;
 type UseModelFn<T extends Model> = {
     (trackChanges?: true): ProxiedValue<T>;
     (trackChanges: false): T;
+    (options: UseModelOptions & { trackChanges?: true }): ProxiedValue<T>;
+    (options: UseModelOptions & { trackChanges: false }): T;
 };
 type WatchModelFn<T extends Model> = {
     (model: T): ProxiedValue<T>;
@@ -28,12 +53,78 @@ type WatchModelFn<T extends Model> = {
     (...models: (T | undefined)[]): (ProxiedValue<T> | undefined)[];
     (...models: (T | null | undefined)[]): (ProxiedValue<T> | null | undefined)[];
 };
+type UseModelOptions = {
+    /**
+     * Re-renders the component when the props it reads from the model change. Defaults to true.
+     */
+    trackChanges?: boolean;
+
+    /**
+     * Suspends the component while the model is loading.
+     * @see {@link suspendUntilReady()} for details.
+     */
+    suspend?: boolean;
+};
+type EqualityFn<T> = (a: T, b: T) => boolean;
+type UseModelSelectorFn<T extends Model> = <TSelected>(selector: (model: T) => TSelected, isEqual?: EqualityFn<TSelected>) => TSelected;
+type ModelScopeProps<T extends Model> = {
+    /**
+     * Creates the model provided to the children. The model is disposed when the scope unmounts or the model is re-created.
+     * Models provided by ancestor scopes can be {@link inject()}ed while it runs.
+     */
+    create?: () => T;
+
+    /**
+     * Re-creates the model when any of these values change.
+     */
+    deps?: readonly any[];
+
+    /**
+     * Provides this model instead of creating one. The scope does not dispose it.
+     */
+    value?: T;
+
+    /**
+     * The key of the model in a {@link ModelSnapshot}. Defaults to the class name of the model.
+     */
+    id?: string;
+
+    children?: ReactNode;
+};
+type ModelScopeComponent<T extends Model> = {
+    (props: ModelScopeProps<T>): ReactElement;
+    displayName?: string;
+};
+type OwnedModel<T extends Model> = { model: T, deps: readonly any[], mounted: boolean };
 type DefineResult<T extends Model> = [
     ProviderExoticComponent<ProviderProps<T>>,
     UseModelFn<T>,
     WatchModelFn<T>,
-    Context<T>
+    Context<T>,
+    UseModelSelectorFn<T>,
+    ModelScopeComponent<T>
 ];
+type GlobalModel<T extends Model> = UseModelFn<T> & {
+    readonly Provider: ProviderExoticComponent<ProviderProps<T>>;
+    readonly ModelScope: ModelScopeComponent<T>;
+    readonly context: Context<T>;
+
+    /**
+     * Gets the global instance, creating it if needed.
+     */
+    get(): T;
+
+    /**
+     * Disposes the global instance so the next use creates a new one, e.g. between tests. Mounted components switch to the new instance.
+     */
+    reset(): void;
+};
+type Selection<T extends Model, TSelected> = {
+    model: T,
+    version: number,
+    selector: (model: T) => TSelected,
+    value: TSelected
+};
 
 /**
  * Base class for your models. Derive from this and call {@link Model.notifyListeners()} when you change data to notify consumers.
@@ -44,71 +135,344 @@ export abstract class Model {
     private listeners: Listener[] = [];
     private dirtyProps: Set<string> = new Set();
     private props: Map<string | symbol, any> = new Map();
+    private computedValues: Map<string, ComputedValue> = new Map();
+    private active: boolean = false;
+    private deactivationPending: boolean = false;
+    private disposed: boolean = false;
+
+    /**
+     * Overrides the scheduler used to deliver notifications for models of this type.
+     * @see {@link configureScheduler()} to change the scheduler for all models.
+     */
+    public static scheduler?: Scheduler | SchedulerName;
+
+    /**
+     * Overrides the number of listeners models of this type can have before a leak is reported.
+     * @see {@link configureListenerDiagnostics()} to change this for all models.
+     */
+    public static maxListeners?: number;
 
     public get hasListeners() {
         return this.listeners.length > 0;
     }
 
+    public get isDisposed() {
+        return this.disposed;
+    }
+
     public notifyListeners(...propNames: string[]) {
-        if (Array.isArray(propNames) && propNames.length > 0) {
-            if (!propNames.some(p => addToSet(this.dirtyProps, p))) {
-                return;
-            }
-        } else if (!addToSet(this.dirtyProps, '*')) {
+        // methods called through the tracking proxy of useModel or watchModel run with the proxy as `this`
+        const model = unwrapModel(this);
+        if (model !== this) {
+            model.notifyListeners(...propNames);
             return;
         }
-        
+
+        this.invalidateComputed(propNames);
+        invalidateSnapshot(this);
+        notifyNestedOwners(this);
+
+        if (!deferNotification(this, propNames)) {
+            this.scheduleNotification(propNames);
+        }
+
+        revalidate(this, propNames);
+    }
+
+    /**
+     * Runs the callback while holding back listener notifications until it returns.
+     * @see {@link batch()} for details - this is not limited to changes made to this model.
+     */
+    public batch<T>(fn: () => T, options?: BatchOptions): T {
+        return batch(fn, options);
+    }
+
+    /**
+     * Checks if any calls to the {@link asyncAction()} method are in progress.
+     * @remarks Listeners are notified under the name 'isPending' when this changes.
+     */
+    public isPending(methodName: string): boolean {
+        const model = unwrapModel(this);
+        reportAccess(model, 'isPending');
+        return (getActionState(model, methodName)?.calls.size ?? 0) > 0;
+    }
+
+    /**
+     * Gets the error thrown by the last failed call to the {@link asyncAction()} method. Cleared when the method is called again.
+     * @remarks Listeners are notified under the name 'lastError' when this changes.
+     */
+    public lastError(methodName: string): any {
+        const model = unwrapModel(this);
+        reportAccess(model, 'lastError');
+        return getActionState(model, methodName)?.error;
+    }
+
+    /**
+     * Gets the abort signal of the latest call to the {@link asyncAction()} method, which is aborted when the call is superseded.
+     * @remarks This should be read synchronously at the start of the method.
+     */
+    public actionSignal(methodName: string): AbortSignal | undefined {
+        return getActionState(unwrapModel(this), methodName)?.latest?.controller?.signal;
+    }
+
+    /**
+     * Adds a listener which is called with the model's version and the changed props whenever the model notifies its listeners.
+     * @param listener The listener.
+     * @param props Only call the listener when one of these props changed.
+     * @param origin Where the listener was added from, see {@link getListenerReport()}. Defaults to the current stack trace if stack traces
+     * are captured.
+     */
+    public addListener(listener: ListenerCallback, props?: Set<string>, origin: string | null = captureListenerOrigin()) {
+        if (this.disposed) {
+            this.handleError(new Error(`Cannot add listeners to ${this.constructor.name} after it was disposed`), 'listener');
+            return;
+        }
+
+        if (this.listeners.some(t => t[0] === listener)) {
+            this.handleError(new Error(`The same listener was added to ${this.constructor.name} more than once`), 'listener');
+        }
+
+        this.listeners.push([listener, props ?? null, origin]);
+
+        if (this.listeners.length === getMaxListeners(this) + 1) {
+            this.handleError(new Error(describeListenerLeak(this)), 'leak');
+        }
+
+        if (this.listeners.length === 1) {
+            this.activate();
+        }
+    }
+
+    /**
+     * Removes the listener. If it was added more than once, only the most recently added copy is removed.
+     */
+    public removeListener(listener: ListenerCallback) {
+        const hadListeners = this.listeners.length > 0;
+        const index = findLastIndex(this.listeners, t => t[0] === listener);
+        if (index >= 0) {
+            this.listeners = [...this.listeners.slice(0, index), ...this.listeners.slice(index + 1)];
+        }
+
+        if (hadListeners && this.listeners.length === 0) {
+            this.scheduleDeactivation();
+        }
+    }
+
+    /**
+     * Removes all listeners and drops pending notifications. The model will not notify listeners after this.
+     * @remarks {@link Model.onDeactivate()} is called immediately if the model is active.
+     */
+    public dispose() {
+        if (this.disposed) {
+            return;
+        }
+
+        this.disposed = true;
+        this.listeners = [];
+        this.dirtyProps.clear();
+        this.computedValues.forEach(computed => computed.stale = true);
+        this.releaseComputedSources();
+        disposeReactionMethods(this);
+        this.deactivate();
+    }
+
+    /**
+     * Called when the first listener is added to the model. Override this to start work which is only needed while the model is in use.
+     */
+    protected onActivate() {
+    }
+
+    /**
+     * Called after the last listener is removed from the model, or when it is disposed. Override this to stop the work started in {@link Model.onActivate()}.
+     * @remarks This is delayed until the next microtask so listeners which are removed and immediately added again (as in React's StrictMode) do not restart the work.
+     */
+    protected onDeactivate() {
+    }
+
+    /**
+     * Called with the errors which happen in the model. By default they are passed to the global error handlers.
+     * @param e The error.
+     * @param phase Where the error happened. Defaults to 'model' for errors the model's own code reports.
+     * @see {@link addErrorHandler()} to receive the errors of all models.
+     */
+    protected handleError(e: any, phase: ErrorPhase = 'model') {
+        dispatchError(this, phase, e);
+    }
+
+    private scheduleNotification(propNames: string[]) {
+        if (this.disposed) {
+            return;
+        }
+
+        const isPending = this.dirtyProps.size > 0;
+        if (propNames.length > 0) {
+            propNames.forEach(p => this.dirtyProps.add(p));
+        } else {
+            this.dirtyProps.add('*');
+        }
+
+        // bumped for every change, even if it is already pending, because snapshots of the model compare versions
         this.version++;
         if (this.version > 100000) {
             this.version = 1;
         }
         
-        enqueue(() => {
-            for (let i = 0; i < this.listeners.length; i++) {
-                const [callback, props] = this.listeners[i];
-                const isRelevant = props instanceof Set
-                    ? this.dirtyProps.has('*') || hasOverlap(this.dirtyProps, props)
-                    : true;
-
-                if (!isRelevant) {
-                    continue;
-                }
+        if (!isPending) {
+            enqueue(() => this.deliverNotification(), (this.constructor as typeof Model).scheduler);
+        }
+    }
 
-                try {
-                    callback(this.version);
-                } catch (e) {
-                    this.handleError(e);
-                }
+    private deliverNotification() {
+        if (this.disposed) {
+            return;
+        }
+
+        // listeners may change the model again, those changes are delivered in a separate notification
+        const dirtyProps = this.dirtyProps;
+        const listeners = this.listeners;
+        this.dirtyProps = new Set();
+        reportNotification(this, dirtyProps, this.version);
+        runReactionMethods(this);
+
+        for (let i = 0; i < listeners.length; i++) {
+            const [callback, props] = listeners[i];
+            const isRelevant = props instanceof Set
+                ? dirtyProps.has('*') || hasOverlap(dirtyProps, props)
+                : true;
+
+            if (!isRelevant) {
+                continue;
             }
 
-            this.dirtyProps.clear();
-        });
+            try {
+                callback(this.version, dirtyProps);
+            } catch (e) {
+                this.handleError(e, 'listener');
+            }
+        }
     }
 
-    public addListener(listener: ListenerCallback, props?: Set<string>) {
-        this.listeners.push([listener, props ?? null]);
+    private activate() {
+        this.deactivationPending = false;
+        if (this.active) {
+            return;
+        }
 
-        if (this.listeners.length > 100) {
-            this.handleError(new Error(`Too many listeners on ${this.constructor.name}`));
+        this.active = true;
+        try {
+            this.onActivate();
+        } catch (e) {
+            this.handleError(e, 'lifecycle');
         }
     }
 
-    public removeListener(listener: ListenerCallback) {
-        this.listeners = this.listeners.filter(t => t[0] !== listener);
+    private scheduleDeactivation() {
+        if (!this.active || this.deactivationPending) {
+            return;
+        }
+
+        this.deactivationPending = true;
+        enqueue(() => {
+            if (this.deactivationPending && this.listeners.length === 0) {
+                this.deactivate();
+            }
+        }, 'microtask');
     }
 
-    protected handleError(e: any) {
-        console.error(e);
+    private deactivate() {
+        this.deactivationPending = false;
+        if (!this.active) {
+            return;
+        }
+
+        this.active = false;
+        try {
+            this.onDeactivate();
+        } catch (e) {
+            this.handleError(e, 'lifecycle');
+        }
     }
+
+    private invalidateComputed(propNames: string[]) {
+        const invalidated = this.invalidateComputedOf(this, propNames);
+        if (invalidated.length > 0 && propNames.length > 0) {
+            this.notifyListeners(...invalidated);
+        }
+
+        // computed getters of other models which read this model
+        for (const owner of [...(computedDependents.get(this) ?? [])]) {
+            const names = owner.invalidateComputedOf(this, propNames);
+            if (names.length > 0) {
+                owner.notifyListeners(...names);
+            }
+        }
+    }
+
+    /**
+     * Marks the computed values which depend on the props of the source model as stale.
+     * @returns The names of the computed values which were marked.
+     */
+    private invalidateComputedOf(source: Model, propNames: string[]): string[] {
+        const invalidated: string[] = [];
+        for (const [name, computed] of this.computedValues) {
+            if (computed.stale) {
+                continue;
+            }
+
+            const dependencies = computed.dependencies.get(source);
+            const all = propNames.length === 0 && (source === this || !!dependencies);
+            if (all || (dependencies && propNames.some(p => dependencies.has(p)))) {
+                computed.stale = true;
+                invalidated.push(name);
+            }
+        }
+
+        if (invalidated.length > 0) {
+            this.releaseComputedSources();
+        }
+
+        return invalidated;
+    }
+
+    /**
+     * Stops other models from invalidating this model's computed values once none of the current values depend on them.
+     */
+    private releaseComputedSources() {
+        const sources = new Set<Model>();
+        for (const computed of this.computedValues.values()) {
+            if (!computed.stale) {
+                computed.dependencies.forEach((props, model) => sources.add(model));
+            }
+        }
+
+        for (const computed of this.computedValues.values()) {
+            for (const source of computed.dependencies.keys()) {
+                if (!sources.has(source)) {
+                    computedDependents.get(source)?.delete(this);
+                }
+            }
+        }
+    }
+}
+
+function addToMap<K extends object, V>(map: WeakMap<K, Set<V>>, key: K, value: V) {
+    let values = map.get(key);
+    if (!values) {
+        values = new Set();
+        map.set(key, values);
+    }
+
+    values.add(value);
 }
 
-function addToSet<T>(set: Set<T>, value: T): boolean {
-    if (set.has(value)) {
-        return false;
-    } else {
-        set.add(value);
-        return true;
+function findLastIndex<T>(array: T[], predicate: (value: T) => boolean): number {
+    for (let i = array.length - 1; i >= 0; i--) {
+        if (predicate(array[i])) {
+            return i;
+        }
     }
+
+    return -1;
 }
 
 function hasOverlap<T>(setA: Set<T>, setB: Set<T>): boolean {
@@ -121,14 +485,62 @@ function hasOverlap<T>(setA: Set<T>, setB: Set<T>): boolean {
     return false;
 }
 
+export interface WatchOptions {
+    /**
+     * Function used to compare the previous and new values. Assigning a value equal to the current one keeps the current value and
+     * does not notify listeners. Defaults to comparing by identity.
+     * @see {@link deepEqual()} and {@link shallowEqual()}.
+     */
+    readonly equals?: (a: any, b: any) => boolean;
+
+    /**
+     * Other names to notify listeners under when the field changes, in addition to the field's own name.
+     */
+    readonly notifyAs?: readonly string[];
+
+    /**
+     * Notifies listeners under the field's name when a model held by the field changes.
+     */
+    readonly deep?: boolean;
+}
+
+/**
+ * Field decorator which injects calls to {@link Model.notifyListeners()} automatically when the field value is changed.
+ * Arrays, Maps and Sets assigned to the field also notify listeners when they are changed in place.
+ */
+export function watch<T extends Model>(target: T, propertyKey: string | symbol, prevDesc?: any): any;
+
 /**
  * Field decorator which injects calls to {@link Model.notifyListeners()} automatically when the field value is changed.
+ * @param options Options for how changes to the field are detected and reported.
  */
-export function watch<T extends Model>(target: T, propertyKey: string | symbol, prevDesc?: any): any {
+export function watch(options?: WatchOptions): <T extends Model>(target: T, propertyKey: string | symbol, prevDesc?: any) => any;
+
+export function watch(targetOrOptions: any, propertyKey?: string | symbol, prevDesc?: any): any {
+    if (propertyKey === undefined) {
+        const options: WatchOptions = targetOrOptions ?? {};
+        return <T extends Model>(target: T, propertyKey: string | symbol, prevDesc?: any) => defineWatched(target, propertyKey, prevDesc, options);
+    }
+
+    return defineWatched(targetOrOptions, propertyKey, prevDesc, {});
+}
+
+function defineWatched<T extends Model>(target: T, propertyKey: string | symbol, prevDesc: any, options: WatchOptions): any {
     let initializer = prevDesc && prevDesc.initializer;
+    const equals = options.equals ?? ((a: any, b: any) => a === b);
+    const notifyAs = options.notifyAs ?? [];
+
+    const observe = (value: any, instance: any) => {
+        if (options.deep && value instanceof Model) {
+            observeNestedModel(value, instance, propertyKey);
+        }
+
+        return observeValue(value, instance, propertyKey);
+    };
+
     const getValue = (instance: any) => {
         if (initializer && !instance.props.has(propertyKey)) {
-            const value = initializer();
+            const value = observe(initializer(), instance);
             instance.props.set(propertyKey, value);
             return value;
         }
@@ -138,14 +550,32 @@ export function watch<T extends Model>(target: T, propertyKey: string | symbol,
 
     const descriptor: PropertyDescriptor = {
         get() {
+            reportAccess(this, propertyKey);
             return getValue(this);
         },
 
         set(newValue: any) {
+            // the first assignment sets the initial value, unless there is an initializer to do that
+            const initialized = !!initializer || this.props.has(propertyKey);
             const value = getValue(this);
-            if (newValue !== value) {
+            const unwrapped = unwrapValue(value);
+            const newUnwrapped = unwrapValue(newValue);
+            if (newUnwrapped !== unwrapped && !(initialized && equals(newUnwrapped, unwrapped))) {
+                if (initialized) {
+                    checkMutation(this, propertyKey);
+
+                    if (typeof propertyKey === 'string') {
+                        recordReactionChange(this, propertyKey, value);
+                    }
+                }
+
+                unobserveValue(value, this, propertyKey);
+                newValue = observe(newValue, this);
+
+                recordChange(this, propertyKey, value);
                 this.props.set(propertyKey, newValue);
-                this.notifyListeners(propertyKey);
+                reportChange(this, propertyKey, value, newValue);
+                this.notifyListeners(propertyKey as string, ...notifyAs);
             }
         },
 
@@ -157,56 +587,290 @@ export function watch<T extends Model>(target: T, propertyKey: string | symbol,
     return descriptor;
 }
 
+/**
+ * Getter decorator which caches the computed value and only re-evaluates it when the {@link watch()}ed fields or other
+ * {@link computed()} getters it read during its last evaluation are changed. These can belong to other models.
+ * Listeners are notified under the getter's name when any of those dependencies change.
+ */
+export function computed<T extends Model>(target: T, propertyKey: string, descriptor: PropertyDescriptor): any {
+    const getter = descriptor.get;
+    if (!getter) {
+        throw new Error(`@computed can only be applied to getters (${target.constructor.name}.${propertyKey})`);
+    }
+
+    return {
+        get() {
+            reportAccess(this, propertyKey);
+
+            let computed: ComputedValue | undefined = this.computedValues.get(propertyKey);
+            if (!computed || computed.stale) {
+                const dependencies = new Map<Model, Set<string>>();
+                const value = trackAccess((model, prop) => {
+                    let props = dependencies.get(model);
+                    if (!props) {
+                        props = new Set();
+                        dependencies.set(model, props);
+                    }
+
+                    props.add(prop);
+                }, () => getter.call(this));
+
+                computed = { value, dependencies, stale: false };
+                this.computedValues.set(propertyKey, computed);
+
+                // other models invalidate the value when the props it read from them change
+                for (const source of dependencies.keys()) {
+                    if (source !== this) {
+                        addToMap(computedDependents, source, this);
+                    }
+                }
+            }
+
+            return computed.value;
+        },
+
+        set: descriptor.set,
+        enumerable: descriptor.enumerable,
+        configurable: descriptor.configurable,
+    } as PropertyDescriptor;
+}
+
 /**
  * Define a Model type, assigns it a React Context archetype, and builds hooks to interact with it.
- * @returns The context provider component, a hook to get the model instance from a provider, and a hook to watch for changes on an instance of the model.
+ * @returns The context provider component, a hook to get the model instance from a provider, a hook to watch for changes on an instance of the model,
+ * the context itself, a hook to select a value from the model from a provider, and a provider component which owns the model it provides.
  */
 export function defineModel<T extends Model>(ctor?: Constructor<T>): DefineResult<T> {
     const context = createContext<T>(null as unknown as T);
     context.displayName = ctor?.name;
 
-    function useModel(trackChanges: true): ProxiedValue<T>;
-    function useModel(trackChanges: false): T;
-    function useModel(trackChanges: boolean = true) {
+    if (ctor) {
+        registerModelContext(ctor, context);
+    }
+
+    function useProvidedModel(hookName: string) {
         const value = useContext<T>(context);
         if (!value) {
-            throw new Error(`useModel: No provider found for model ${context?.displayName ?? '<unknown>'}`);
+            throw new Error(`${hookName}: No provider found for model ${context?.displayName ?? '<unknown>'}`);
         }
-    
-        if (trackChanges) {
-            return watchModel(value);
-        } else {
+
+        return value;
+    }
+
+    function useModel(trackChanges: true): ProxiedValue<T>;
+    function useModel(trackChanges: false): T;
+    function useModel(options: UseModelOptions & { trackChanges?: true }): ProxiedValue<T>;
+    function useModel(options: UseModelOptions & { trackChanges: false }): T;
+    function useModel(trackChangesOrOptions: boolean | UseModelOptions = true) {
+        const value = useProvidedModel('useModel');
+        return useModelValue(value, trackChangesOrOptions);
+    }
+
+    /**
+     * Selects a value from the model and only re-renders when the selected value changes.
+     * @param selector Function which derives the value from the model. It is re-evaluated whenever the model notifies its listeners.
+     * @param isEqual Function used to compare the previous and new selected values. Defaults to {@link Object.is}.
+     */
+    function useModelSelector<TSelected>(selector: (model: T) => TSelected, isEqual: EqualityFn<TSelected> = Object.is): TSelected {
+        const model = useProvidedModel('useModelSelector');
+        const selection = useRef<Selection<T, TSelected> | null>(null);
+        const rethrow = useRethrow();
+        const origin = useListenerOrigin();
+
+        const subscribe = useCallback((onStoreChange: () => void) => {
+            model.addListener(onStoreChange, undefined, origin);
+            const removeSink = addErrorSink(model, rethrow);
+
+            return () => {
+                model.removeListener(onStoreChange);
+                removeSink();
+            };
+        }, [model]);
+
+        const getSelection = () => {
+            const previous = selection.current;
+            const version: number = model['version'];
+            if (previous && previous.model === model && previous.version === version && previous.selector === selector) {
+                return previous.value;
+            }
+
+            const value = selector(model);
+            if (previous && previous.model === model && isEqual(previous.value, value)) {
+                selection.current = { ...previous, version, selector };
+                return previous.value;
+            }
+
+            selection.current = { model, version, selector, value };
             return value;
+        };
+
+        return useSyncExternalStore(subscribe, getSelection, getSelection);
+    }
+
+    function ModelScope({ create, deps = [], value, id, children }: ModelScopeProps<T>) {
+        const owned = useRef<OwnedModel<T> | null>(null);
+        const parentInjector = useContext(InjectorContext);
+        const snapshot = useContext(SnapshotContext);
+
+        let scope = owned.current;
+        if (!value && (!scope || scope.model.isDisposed || !depsEqual(scope.deps, deps))) {
+            if (!create) {
+                throw new Error(`ModelScope: Either create or value must be set for model ${context.displayName ?? '<unknown>'}`);
+            }
+
+            scope = { model: withInjector(parentInjector, () => allowMutations(create)), deps, mounted: false };
+            owned.current = scope;
         }
+
+        const ownedModel = value ? null : scope?.model;
+        useEffect(() => {
+            if (!scope || !ownedModel) {
+                return;
+            }
+
+            const current = scope;
+            current.mounted = true;
+            return () => {
+                current.mounted = false;
+
+                // delayed so StrictMode unmounting and immediately remounting the scope keeps the model
+                enqueue(() => {
+                    if (!current.mounted || owned.current !== current) {
+                        current.model.dispose();
+                    }
+                }, 'microtask');
+            };
+        }, [ownedModel]);
+
+        const model = value ?? scope!.model;
+        snapshot?.register(id ?? model.constructor.name, model);
+
+        const injector = useMemo(() => ({ models: [model], parent: parentInjector }), [model, parentInjector]);
+
+        return createElement(context.Provider, { value: model },
+            createElement(InjectorContext.Provider, { value: injector }, children));
     }
 
+    ModelScope.displayName = ctor ? `${ctor.name}Scope` : undefined;
+
     return [
         context.Provider,
         useModel,
         watchModel,
-        context
+        context,
+        useModelSelector,
+        ModelScope
     ];
 }
 
+/**
+ * Define a Model type which has a global instance, and builds a hook to use it without a provider.
+ * @param ctor The model type.
+ * @param factory Creates the global instance the first time it is used. Defaults to calling the constructor without arguments.
+ * @returns A hook which returns the instance provided through its Provider or ModelScope (e.g. in tests or Storybook), or the global instance
+ * when there is none. The hook also has the Provider, ModelScope and context, and functions to get and reset the global instance.
+ * @remarks The global instance is shared by everything in the process, including every request rendered on a server.
+ */
+export function defineGlobalModel<T extends Model>(ctor: Constructor<T>, factory: () => T = () => new ctor()): GlobalModel<T> {
+    const [Provider, , , context, , ModelScope] = defineModel(ctor);
+    const subscribers = new Set<() => void>();
+    let instance: T | null = null;
+
+    function get(): T {
+        if (!instance || instance.isDisposed) {
+            instance = allowMutations(factory);
+        }
+
+        return instance;
+    }
+
+    function reset() {
+        const previous = instance;
+        instance = null;
+        previous?.dispose();
+        subscribers.forEach(subscriber => subscriber());
+    }
+
+    function subscribe(onStoreChange: () => void) {
+        subscribers.add(onStoreChange);
+        return () => {
+            subscribers.delete(onStoreChange);
+        };
+    }
+
+    function useGlobalModel(trackChanges: true): ProxiedValue<T>;
+    function useGlobalModel(trackChanges: false): T;
+    function useGlobalModel(options: UseModelOptions & { trackChanges?: true }): ProxiedValue<T>;
+    function useGlobalModel(options: UseModelOptions & { trackChanges: false }): T;
+    function useGlobalModel(trackChangesOrOptions: boolean | UseModelOptions = true) {
+        const provided: T | null = useContext(context);
+
+        // don't create the global instance when a provider overrides it
+        const getSnapshot = () => provided ? null : get();
+        const global = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+        return useModelValue<T>((provided ?? global)!, trackChangesOrOptions);
+    }
+
+    registerGlobalModel(ctor, get);
+
+    return Object.assign(useGlobalModel as UseModelFn<T>, { Provider, ModelScope, context, get, reset });
+}
+
+function useModelValue<T extends Model>(value: T, trackChangesOrOptions: boolean | UseModelOptions): ProxiedValue<T> | T {
+    const options = typeof trackChangesOrOptions === 'boolean' ? { trackChanges: trackChangesOrOptions } : trackChangesOrOptions;
+    const result = (options.trackChanges ?? true) ? watchModel(value) : value;
+
+    if (options.suspend) {
+        suspendUntilReady(result);
+    }
+
+    return result;
+}
+
+/**
+ * Returns the model behind a value returned by `useModel` or `watchModel`, or the value itself if it is not one of those.
+ * @remarks Use this to read the model without tracking the props read by the component.
+ */
+export function unwrapModel<T extends Model | null | undefined>(model: T): T {
+    const proxied = model instanceof Model ? (model as ProxiedValue<Model>)[proxiedValue] : undefined;
+    return (proxied ?? model) as T;
+}
+
+function depsEqual(a: readonly any[], b: readonly any[]) {
+    return a.length === b.length && a.every((value, i) => Object.is(value, b[i]));
+}
+
 
 function watchModel<T extends Model | null | undefined>(moddel: T) : ProxiedValue<T>;
-function watchModel<T extends Model | null | undefined>(...models: T[]): ProxiedValue<T> | ProxiedValue<T>[] {   
-    const [, setState] = useState(0);
-    const modelListeners = useMemo(() => models.map(createListener), models)
+function watchModel<T extends Model | null | undefined>(...models: T[]): ProxiedValue<T> | ProxiedValue<T>[] {
+    const modelListeners = useMemo(() => models.map(createListener), models);
+    const rethrow = useRethrow();
+    const origin = useListenerOrigin();
 
-    useEffect(() => {
+    const subscribe = useCallback((onStoreChange: () => void) => {
         const validModels = modelListeners.filter(t => t[0] instanceof Model);
-        for (const [model, , props] of validModels) {
-            model?.addListener(setState, props);
-        }
+        const removeSinks = validModels.map(([model, , props]) => {
+            model?.addListener(onStoreChange, props, origin);
+            return addErrorSink(model!, rethrow);
+        });
 
         return () => {
             for (const [model] of validModels) {
-                model?.removeListener(setState);
+                model?.removeListener(onStoreChange);
             }
-        }
+
+            removeSinks.forEach(remove => remove());
+        };
     }, modelListeners);
 
+    // the snapshot changes with every notification, but the listeners above only fire for the props touched during render
+    const getSnapshot = useCallback(() => modelListeners
+        .map(([model]) => model instanceof Model ? model['version'] : 0)
+        .join(','), modelListeners);
+
+    useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
     // reset the touched props because the component should be re-rendering now and will touch them again
     for (const [, , props] of modelListeners) {
         props.clear();
@@ -217,6 +881,16 @@ function watchModel<T extends Model | null | undefined>(...models: T[]): Proxied
         : modelListeners.map(t => t[1]);
 }
 
+/**
+ * Returns a function which throws the error in the next render of the component, so the nearest error boundary handles it.
+ */
+function useRethrow(): (error: any) => void {
+    const [, setError] = useState<null>(null);
+    return useCallback((error: any) => setError(() => {
+        throw error;
+    }), []);
+}
+
 function createListener<T extends Model | null | undefined>(model: T): [T, ProxiedValue<T>, Set<string>] {
     const props = new Set<string>();
     const handler: ProxyHandler<T & Model> = {
@@ -230,7 +904,13 @@ function createListener<T extends Model | null | undefined>(model: T): [T, Proxi
             }
             
             return target[prop];
-        }
+        },
+
+        // assign on the model itself so setters and the methods they call see the model, not the proxy
+        set(target, prop, value) {
+            target[prop] = value;
+            return true;
+        },
     };
 
     const proxy = model instanceof Model
@@ -239,30 +919,3 @@ function createListener<T extends Model | null | undefined>(model: T): [T, Proxi
 
     return [model, proxy as ProxiedValue<T>, props];
 }
-
-const scheduler = getScheduler();
-const taskQueue: (() => void)[] = [];
-
-function enqueue(task: () => void) {
-    if (taskQueue.length === 0) {
-        scheduler(flushTasks);
-    }
-
-    taskQueue.push(task);
-}
-
-function flushTasks() {
-    while (taskQueue.length > 0) {
-        const task = taskQueue.pop();
-        task?.();
-    }
-}
-
-function getScheduler(): (fn: () => any) => void {
-    if (typeof window === 'object' && typeof window['setImmediate'] === 'function') {
-        return window['setImmediate'];
-    }
-
-    // TODO: good fallbacks
-    return fn => setTimeout(fn, 0);
-}
@@ -0,0 +1,235 @@
+import type { Model } from './Model';
+import { recordReactionChange } from './Reactions';
+import { checkMutation } from './Strict';
+import { isRecordingChanges, recordChange } from './Batch';
+import { isObservingChanges, reportChange } from './Changes';
+import { shallowEqual } from './Equality';
+
+type Owner = [Model, string | symbol];
+
+const arrayMutators = new Set(['push', 'pop', 'shift', 'unshift', 'splice', 'sort', 'reverse', 'fill', 'copyWithin']);
+const arrayResizers = new Set(['push', 'pop', 'shift', 'unshift', 'splice']);
+const mapMutators = new Set(['set', 'delete', 'clear']);
+const setMutators = new Set(['add', 'delete', 'clear']);
+
+const proxies = new WeakMap<object, object>();
+const targets = new WeakMap<object, object>();
+const owners = new WeakMap<object, Owner[]>();
+const notifying = new Set<object>();
+
+/**
+ * Returns an observable version of the value if it is a plain array, Map or Set. In-place changes to it notify
+ * the listeners of every model field holding it.
+ * @remarks The same observable instance is returned every time the same collection is observed.
+ */
+export function observeValue<T>(value: T, model: Model, propertyKey: string | symbol): T {
+    const target: any = unwrapValue(value);
+    const proxy = getProxy(target);
+    if (!proxy) {
+        return value;
+    }
+
+    const valueOwners = owners.get(target)!;
+    if (!valueOwners.some(([m, k]) => m === model && k === propertyKey)) {
+        valueOwners.push([model, propertyKey]);
+    }
+
+    return proxy as unknown as T;
+}
+
+/**
+ * Notifies the listeners of the model field holding the nested model when the nested model changes.
+ */
+export function observeNestedModel(nested: Model, model: Model, propertyKey: string | symbol) {
+    const valueOwners = owners.get(nested) ?? [];
+    if (!valueOwners.some(([m, k]) => m === model && k === propertyKey)) {
+        owners.set(nested, [...valueOwners, [model, propertyKey]]);
+    }
+}
+
+/**
+ * Passes a change of the nested model on to the model fields holding it.
+ */
+export function notifyNestedOwners(nested: Model) {
+    const valueOwners = owners.get(nested);
+    if (!valueOwners || valueOwners.length === 0 || notifying.has(nested)) {
+        return;
+    }
+
+    // models which (indirectly) hold each other would notify each other forever
+    notifying.add(nested);
+    try {
+        for (const [model, propertyKey] of valueOwners) {
+            recordReactionChange(model, propertyKey as string, nested);
+            model.notifyListeners(propertyKey as string);
+        }
+    } finally {
+        notifying.delete(nested);
+    }
+}
+
+/**
+ * Stops notifying the model field about in-place changes to the value.
+ */
+export function unobserveValue(value: any, model: Model, propertyKey: string | symbol) {
+    const valueOwners = owners.get(unwrapValue(value));
+    if (!valueOwners) {
+        return;
+    }
+
+    const index = valueOwners.findIndex(([m, k]) => m === model && k === propertyKey);
+    if (index >= 0) {
+        valueOwners.splice(index, 1);
+    }
+}
+
+/**
+ * Returns the underlying collection if the value is observable, otherwise the value itself.
+ */
+export function unwrapValue<T>(value: T): T {
+    return (value !== null && typeof value === 'object' && targets.get(value as unknown as object) as unknown as T) || value;
+}
+
+function getProxy(value: any): object | undefined {
+    if (value === null || typeof value !== 'object') {
+        return undefined;
+    }
+
+    const existing = proxies.get(value);
+    if (existing) {
+        return existing;
+    }
+
+    const prototype = Object.getPrototypeOf(value);
+    let proxy: object;
+    if (prototype === Array.prototype) {
+        proxy = new Proxy(value, arrayHandler);
+    } else if (prototype === Map.prototype) {
+        proxy = new Proxy(value, collectionHandler(mapMutators));
+    } else if (prototype === Set.prototype) {
+        proxy = new Proxy(value, collectionHandler(setMutators));
+    } else {
+        return undefined;
+    }
+
+    proxies.set(value, proxy);
+    targets.set(proxy, value);
+    owners.set(value, []);
+    return proxy;
+}
+
+const arrayHandler: ProxyHandler<any[]> = {
+    get(target, key, receiver) {
+        const value = Reflect.get(target, key, receiver);
+        if (typeof key !== 'string' || !arrayMutators.has(key) || typeof value !== 'function') {
+            return value;
+        }
+
+        // run mutating methods on the array itself so they are reported as a single change
+        return (...args: any[]) => {
+            const length = target.length;
+            const previous = isObserved(target) || !arrayResizers.has(key) ? target.slice() : undefined;
+            const result = value.apply(target, args);
+
+            const changed = previous
+                ? !shallowEqual(previous, target)
+                : target.length !== length || (key === 'splice' && args.length > 2);
+
+            if (changed) {
+                notifyOwners(target, previous);
+            }
+
+            return result === target ? proxies.get(target) : result;
+        };
+    },
+
+    set(target, key, value) {
+        const changed = !(key in target) || target[key] !== value;
+        const previous = changed && isObserved(target) ? target.slice() : undefined;
+        target[key] = value;
+
+        if (changed) {
+            notifyOwners(target, previous);
+        }
+
+        return true;
+    },
+
+    deleteProperty(target, key) {
+        const changed = key in target;
+        const previous = changed && isObserved(target) ? target.slice() : undefined;
+        delete target[key];
+
+        if (changed) {
+            notifyOwners(target, previous);
+        }
+
+        return true;
+    },
+};
+
+function collectionHandler(mutators: Set<string>): ProxyHandler<Map<any, any> | Set<any>> {
+    return {
+        get(target, key) {
+            // collections only work when their methods are called on the collection itself, not on the proxy
+            const value = Reflect.get(target, key, target);
+            if (typeof value !== 'function') {
+                return value;
+            }
+
+            if (typeof key !== 'string' || !mutators.has(key)) {
+                return value.bind(target);
+            }
+
+            return (...args: any[]) => {
+                const size = target.size;
+                const previous = key === 'set' ? (target as Map<any, any>).get(args[0]) : undefined;
+                const contents = isObserved(target) ? copyCollection(target) : undefined;
+                const result = value.apply(target, args);
+
+                const changed = target.size !== size || (key === 'set' && previous !== args[1]);
+                if (changed) {
+                    notifyOwners(target, contents);
+                }
+
+                return key === 'set' || key === 'add' ? proxies.get(target) : result;
+            };
+        },
+    };
+}
+
+/**
+ * Checks if anything needs the contents the collection had before a change: History, the Inspector or a batch which rolls back on error.
+ */
+function isObserved(target: object): boolean {
+    return isRecordingChanges() || (owners.get(target) ?? []).some(([model]) => isObservingChanges(model));
+}
+
+function copyCollection(target: any): any {
+    if (Array.isArray(target)) {
+        return target.slice();
+    }
+
+    return target instanceof Map ? new Map(target) : new Set(target);
+}
+
+/**
+ * Notifies the model fields holding the collection about an in-place change.
+ * @param previous A copy of the contents before the change, if the change is observed.
+ */
+function notifyOwners(target: object, previous: object | undefined) {
+    for (const [model, propertyKey] of owners.get(target) ?? []) {
+        checkMutation(model, propertyKey);
+
+        // changed in place, so the previous value is the same collection
+        recordReactionChange(model, propertyKey as string, proxies.get(target));
+
+        // History, the Inspector and rollbacks get copies, because the collection itself keeps changing
+        if (previous) {
+            recordChange(model, propertyKey, previous);
+            reportChange(model, propertyKey, previous, copyCollection(target));
+        }
+
+        model.notifyListeners(propertyKey as string);
+    }
+}
@@ -8,13 +8,15 @@ export class Field {
     public copy: boolean;
     public get: Getter<any>;
     public set: Setter<any>;
+    public propertyName: string | undefined;
 
-    constructor(ctor: PropConstructor<any> | undefined, transient: boolean, copy: boolean, get: Getter<any>, set: Setter<any>) {
+    constructor(ctor: PropConstructor<any> | undefined, transient: boolean, copy: boolean, get: Getter<any>, set: Setter<any>, propertyName?: string) {
         this.ctor = ctor;
         this.transient = transient;
         this.copy = copy;
         this.get = get;
         this.set = set;
+        this.propertyName = propertyName;
     } 
 
     public deserialize(props: any, current: any): DeserializeResult {
@@ -37,6 +39,8 @@ export class Field {
 
         const value = current ?? new ctor();
         const changed = deserializeCopy(persistence, value, props);
-        return [changed, value];
+
+        // a new instance is a change even if the props match its defaults
+        return [changed || value !== current, value];
     }
 }
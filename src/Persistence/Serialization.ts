@@ -1,7 +1,8 @@
 import { Persistence, getPersistence, requirePersistence } from './Persistence';
 import { Field } from './Field';
-import isEqual from 'lodash-es/isEqual';
 import { Model } from '../Model';
+import { deepEqual } from '../Equality';
+import { reportError } from '../Errors';
 
 export function toSerializable<T>(instance: T) {
     if (instance === undefined ||
@@ -118,7 +119,7 @@ export function deserializeCopy<T>(persistence: Persistence, current: T, props:
                 }
             } else {
                 if (!objPersistence) {
-                    console.error(`Constructor is required for @prop('${name}')`);
+                    reportError(current instanceof Model ? current : null, 'deserialization', new Error(`Constructor is required for @prop('${name}')`));
                     continue;
                 }
 
@@ -211,7 +212,7 @@ function keysMatch(persistence: Persistence, obj: object, props: any) {
         for (let i = 0; i < persistence.keys.length; i++) {
             const key = persistence.keys[i];
             const field = persistence.fields.get(key);
-            if (!field || !equals(field.get(obj), props[key])) {
+            if (!field || !deepEqual(field.get(obj), props[key])) {
                 return false;
             }
         }
@@ -219,35 +220,12 @@ function keysMatch(persistence: Persistence, obj: object, props: any) {
         return true;
     } else {
         const field = persistence.fields.get(persistence.keys[0]);
-        return field && equals(field.get(obj), props);
+        return field && deepEqual(field.get(obj), props);
     }
 }
 
-function equals(x: object, y: object) {
-    // for any class that has an equals method - x.equals(y)
-    if (typeof x === 'object' &&
-        typeof y === 'object' &&
-        x.constructor === y.constructor &&
-        typeof x['equals'] === 'function'
-    ) {
-        return !!x['equals'](y);
-    }
-
-    if (x instanceof Date) {
-        if (y instanceof Date) {
-            return x.valueOf() === y.valueOf();
-        }
-
-        if (typeof y === 'number') {
-            return x.valueOf() === (y * 1000); // assume numbers are unix timestamps (in seconds)
-        }
-    }
-
-    return isEqual(x, y);
-}
-
 const hasOwnProperty = Object.prototype.hasOwnProperty;
-function hasProperty(value: object, name: string): boolean {
+export function hasProperty(value: object, name: string): boolean {
     if (typeof value !== 'object' || Array.isArray(value) || value == null) {
         return false; // not an object
     }
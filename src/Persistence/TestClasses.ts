@@ -1,8 +1,9 @@
 import { key, prop } from '.';
 import { Model, watch } from '../Model';
+import { getWatchedValues } from '../testing';
 
 export function expectModelToStrictEqual<T extends Model>(actual: T, expected: T) {
-    expect(actual['props']).toStrictEqual(expected['props']);
+    expect(getWatchedValues(actual)).toStrictEqual(getWatchedValues(expected));
 }
 
 export class Point {
@@ -178,6 +178,13 @@ describe('#deserializeCopy', () => {
             expect(line.start.x).toBe(1);
             expect(line.start.y).toBeUndefined();
         });
+
+        it('populates object fields with values matching the defaults', () => {
+            const line = new Line();
+            const changed = deserializeCopy(linePersistence, line, { start: {} });
+            expect(changed).toBe(true);
+            expect(line.start).toBeInstanceOf(Point);
+        });
     
         it('sets fields within populated object fields', () => {
             const line = new Line();
@@ -1,8 +1,20 @@
 import { Constructor, AnyTyped, Serializer, Deserializer, InPlaceDeserializer, PropConstructor } from './CommonTypes';
-import { requirePersistence, getPersistence } from './Persistence';
+import { requirePersistence, getPersistence, Persistence } from './Persistence';
 import { Model } from '../Model';
-import { toSerializable, deserializeCopy } from './Serialization';
+import { toSerializable, deserializeCopy, hasProperty } from './Serialization';
 import { Field } from './Field';
+import { checkValues, getValidationErrors, ValidationError } from '../Validation';
+import { batch } from '../Batch';
+
+export interface DeserializeOptions {
+    /**
+     * Validates the incoming values with the model's validators. 'reject' deserializes the incoming values separately (so validators
+     * receive e.g. nested models rather than plain objects, as they do at runtime) and throws a {@link ValidationError} without changing
+     * the model if any synchronous validator fails on them. 'report' applies the values, then passes a {@link ValidationError} to
+     * the model's error handler if the model is invalid. The model's errors are updated either way.
+     */
+    readonly validate?: 'reject' | 'report';
+}
 
 /**
  * Serializes the provided model to JSON.
@@ -19,12 +31,13 @@ export function serialize<T extends Model>(value: T) {
  * Deserializes JSON to a new instance of a model.
  * @param ctor The model type that is being deserialized.
  * @param json The JSON to deserialize.
+ * @param options Options for validating the deserialized values.
  * @returns A new instance of the model with fields deserialized from the JSON.
  * @remarks This performs deserialization logic according to {@link prop()} decorators on the model type.
  */
-export function deserialize<T extends Model>(ctor: Constructor<T>, json: string): T {
+export function deserialize<T extends Model>(ctor: Constructor<T>, json: string, options?: DeserializeOptions): T {
     const instance = new ctor();
-    deserializeInto(instance, json);
+    deserializeInto(instance, json, options);
     return instance;
 }
 
@@ -32,23 +45,56 @@ export function deserialize<T extends Model>(ctor: Constructor<T>, json: string)
  * Deserializes JSON to an existing instance of a model.
  * @param value The existing instance of the model to deserialize into.
  * @param json The JSON to deserialize.
+ * @param options Options for validating the deserialized values.
  * @remarks This performs deserialization logic according to {@link prop()} decorators on the model type.
  */
-export function deserializeInto<T extends Model>(value: T, json: string) {
+export function deserializeInto<T extends Model>(value: T, json: string, options?: DeserializeOptions) {
     const persistence = requirePersistence(value);
     const obj = JSON.parse(json) as Object;
-    return deserializeCopy(persistence, value, obj);
+    return deserializeValidated(persistence, value, obj, options);
 }
 
 /**
  * Deserializes a JavaScript object to an existing instance of a model.
  * @param value The existing instance of the model to deserialize into.
  * @param props The JavaScript object to deserialize from.
+ * @param options Options for validating the deserialized values.
  * @remarks This performs deserialization logic according to {@link prop()} decorators on the model type.
  */
-export function copyInto<TInstance extends Model & AnyTyped<TProps>, TProps extends Object>(value: TInstance, props: TProps) {
+export function copyInto<TInstance extends Model & AnyTyped<TProps>, TProps extends Object>(value: TInstance, props: TProps, options?: DeserializeOptions) {
     const persistence = requirePersistence(value);
-    return deserializeCopy(persistence, value, props);
+    return deserializeValidated(persistence, value, props, options);
+}
+
+function deserializeValidated<T extends Model>(persistence: Persistence, value: T, props: Object, options: DeserializeOptions | undefined) {
+    if (options?.validate === 'reject') {
+        // deserialize into a scratch object so validators see the values the fields would hold, without touching the model
+        const scratch = {};
+        deserializeCopy(persistence, scratch, props);
+
+        const incoming: [string, any][] = [];
+        for (const [name, field] of persistence.fields) {
+            if (field.propertyName && hasProperty(props, name)) {
+                incoming.push([field.propertyName, scratch[field.propertyName]]);
+            }
+        }
+
+        const errors = checkValues(value, incoming);
+        if (errors.size > 0) {
+            throw new ValidationError(value.constructor.name, errors);
+        }
+    }
+
+    const changed = batch(() => deserializeCopy(persistence, value, props));
+
+    if (options?.validate === 'report') {
+        const errors = getValidationErrors(value);
+        if (errors.size > 0) {
+            value['handleError'](new ValidationError(value.constructor.name, errors), 'deserialization');
+        }
+    }
+
+    return changed;
 }
 
 interface PropParams {
@@ -82,7 +128,8 @@ export function prop(props?: PropParams) {
     return <T>(target: T, propertyName: string, ...a: any[]) => {
         const field = new Field(props?.ctor, props?.transient ?? false, props?.copy ?? false,
             instance => instance[propertyName],
-            (instance, value) => instance[propertyName] = value);
+            (instance, value) => instance[propertyName] = value,
+            propertyName);
 
         requirePersistence(target, true).add(props?.key || propertyName, field);
     };
@@ -0,0 +1,117 @@
+import { Context, createElement, ReactElement, ReactNode, useContext, useEffect, useRef } from 'react';
+import { Model } from './Model';
+import { findModelContext, Injector, InjectorContext, withInjector } from './Injection';
+import { enqueue } from './Scheduler';
+import { SnapshotContext } from './Snapshot';
+import { allowMutations } from './Strict';
+
+export interface ProvidedModelOptions {
+    /**
+     * The model, or a function which creates it.
+     */
+    model: Model | (() => Model);
+
+    /**
+     * The context to provide the model through. Defaults to the context defined for its type.
+     */
+    context?: Context<any>;
+
+    /**
+     * The key of the model in a {@link ModelSnapshot}. Defaults to the class name of the model.
+     */
+    id?: string;
+}
+
+/**
+ * A model to provide: an existing instance, a function which creates the instance, an instance paired with the context to provide it
+ * through, or {@link ProvidedModelOptions}.
+ */
+export type ProvidedModel = Model | (() => Model) | [Context<any>, Model] | ProvidedModelOptions;
+
+export interface ModelProvidersProps {
+    /**
+     * The models to provide, outermost first. Models created by functions can {@link inject()} the models listed before them.
+     * Created models are disposed when the providers unmount. Models are keyed by their id or class name in a {@link ModelSnapshot}.
+     */
+    models: readonly ProvidedModel[];
+
+    children?: ReactNode;
+}
+
+type OwnedModels = { models: (Model | null)[], mounted: boolean };
+
+/**
+ * Provides multiple models without nesting their provider components.
+ * @remarks Models are provided through the context returned by {@link defineModel()} for their type.
+ */
+export function ModelProviders({ models, children }: ModelProvidersProps): ReactElement {
+    const parentInjector = useContext(InjectorContext);
+    const snapshot = useContext(SnapshotContext);
+    const owned = useRef<OwnedModels>({ models: [], mounted: false });
+    const injectorRef = useRef<Injector | null>(null);
+
+    const provided: [Context<any>, Model][] = [];
+    for (let i = 0; i < models.length; i++) {
+        const entry = models[i];
+        const options = Array.isArray(entry) || typeof entry === 'function' || entry instanceof Model ? null : entry;
+        const item = options ? options.model : entry as Exclude<ProvidedModel, ProvidedModelOptions>;
+
+        let model: Model;
+        let context: Context<any> | undefined = options?.context;
+        if (Array.isArray(item)) {
+            [context, model] = item;
+        } else if (typeof item === 'function') {
+            let created = owned.current.models[i];
+            if (!created || created.isDisposed) {
+                created = withInjector({ models: provided.map(p => p[1]), parent: parentInjector }, () => allowMutations(item));
+                owned.current.models[i] = created;
+            }
+
+            model = created;
+        } else {
+            model = item;
+        }
+
+        context = context ?? findModelContext(model);
+        if (!context) {
+            throw new Error(`ModelProviders: No context found for model ${model.constructor.name} - pass [context, model] instead`);
+        }
+
+        snapshot?.register(options?.id ?? model.constructor.name, model);
+        provided.push([context, model]);
+    }
+
+    // keep the same injector while the provided models are the same so consumers of it don't re-render
+    const providedModels = provided.map(p => p[1]);
+    let injector = injectorRef.current;
+    if (!injector || injector.parent !== parentInjector || !sameModels(injector.models, providedModels)) {
+        injector = { models: providedModels, parent: parentInjector };
+        injectorRef.current = injector;
+    }
+
+    useEffect(() => {
+        const current = owned.current;
+        current.mounted = true;
+
+        return () => {
+            current.mounted = false;
+
+            // delayed so StrictMode unmounting and immediately remounting the providers keeps the models
+            enqueue(() => {
+                if (!current.mounted) {
+                    for (const model of current.models) {
+                        model?.dispose();
+                    }
+                }
+            }, 'microtask');
+        };
+    }, []);
+
+    return provided.reduceRight<ReactElement>(
+        (child, [context, model]) => createElement(context.Provider, { value: model }, child),
+        createElement(InjectorContext.Provider, { value: injector }, children));
+}
+
+function sameModels(a: readonly Model[], b: readonly Model[]) {
+    return a.length === b.length && a.every((model, i) => model === b[i]);
+}
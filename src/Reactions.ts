@@ -0,0 +1,326 @@
+import type { Model } from './Model';
+import { trackAccess } from './Tracking';
+import { batch } from './Batch';
+
+export type Unsubscribe = () => void;
+
+export interface ModelChange<T extends Model> {
+    /**
+     * The model which changed.
+     */
+    readonly model: T;
+
+    /**
+     * The version of the model after the change.
+     */
+    readonly version: number;
+
+    /**
+     * The names of the props which changed. Contains '*' if the whole model changed.
+     */
+    readonly props: ReadonlySet<string>;
+}
+
+export interface ReactionOptions<T> {
+    /**
+     * Calls the effect immediately with the initial value.
+     */
+    readonly fireImmediately?: boolean;
+
+    /**
+     * Function used to compare the previous and new values. Defaults to {@link Object.is}.
+     */
+    readonly equals?: (a: T, b: T) => boolean;
+}
+
+export interface ReactionMethodOptions {
+    /**
+     * Waits until the fields stop changing for this many milliseconds before calling the method.
+     */
+    readonly debounce?: number;
+
+    /**
+     * Calls the method at most once per this many milliseconds. Changes made in between are handled by one call at the end of the interval.
+     */
+    readonly throttle?: number;
+}
+
+type ReactionMethod = { methodName: string, props: ReadonlySet<string>, options: ReactionMethodOptions };
+type ReactionMethodState = { previous: Map<string, any>, timer: ReturnType<typeof setTimeout> | null, lastRun: number };
+
+const reactionMethods = new WeakMap<object, ReactionMethod[]>();
+const resolvedReactionMethods = new Map<Function, ReactionMethod[]>();
+const reactionMethodStates = new WeakMap<Model, Map<string, ReactionMethodState>>();
+
+/**
+ * Calls the callback whenever the model notifies its listeners of changes to the given props.
+ * @param model The model to subscribe to.
+ * @param props The props to listen for, or null to listen for all changes.
+ * @param callback Called with the details of each change.
+ * @returns A function which removes the subscription.
+ * @remarks Each call creates a separate subscription, so the same callback may be subscribed multiple times.
+ */
+export function subscribe<T extends Model>(model: T, props: readonly (keyof T & string)[] | null, callback: (change: ModelChange<T>) => void): Unsubscribe {
+    const listener = (version: number, changedProps: ReadonlySet<string>) => {
+        callback({ model, version, props: changedProps });
+    };
+
+    model.addListener(listener, props ? new Set(props) : undefined);
+    return () => model.removeListener(listener);
+}
+
+/**
+ * Runs the function immediately and again whenever any of the {@link watch()}ed fields or {@link computed()} getters it read change.
+ * @param fn The function to run. Dependencies are tracked again every time it runs.
+ * @returns A function which stops running the function.
+ */
+export function autorun(fn: () => void): Unsubscribe {
+    const dependencies = new Dependencies(() => dependencies.track(fn));
+    dependencies.track(fn);
+    return () => dependencies.dispose();
+}
+
+/**
+ * Runs the data function and calls the effect whenever its result changes.
+ * @param dataFn Function which derives a value from models. Only the {@link watch()}ed fields and {@link computed()} getters it reads are tracked.
+ * @param effectFn Called with the new and previous value when the derived value changes. Anything it reads is not tracked.
+ * @param options Options for how to run the effect.
+ * @returns A function which stops the reaction.
+ */
+export function reaction<T>(dataFn: () => T, effectFn: (value: T, previous: T) => void, options?: ReactionOptions<T>): Unsubscribe;
+
+/**
+ * Method decorator which calls the method when any of the named {@link watch()}ed fields of the model change. The method is called once
+ * per notification with an object holding the previous values of the fields which changed. It stops being called when the model is disposed.
+ * @param propsAndOptions The names of the fields, optionally followed by options for delaying the calls.
+ * @remarks This does not add a listener to the model. Setting the initial values of the fields does not call the method.
+ */
+export function reaction(...propsAndOptions: (string | ReactionMethodOptions)[]): <T extends Model>(target: T, propertyKey: string, descriptor: PropertyDescriptor) => any;
+
+export function reaction(...args: any[]): any {
+    if (typeof args[0] === 'function') {
+        return createReaction(args[0], args[1], args[2]);
+    }
+
+    const props = args.filter((arg): arg is string => typeof arg === 'string');
+    const options: ReactionMethodOptions = args.find(arg => typeof arg === 'object' && arg !== null) ?? {};
+
+    return <T extends Model>(target: T, propertyKey: string, descriptor: PropertyDescriptor): any => {
+        if (typeof descriptor.value !== 'function') {
+            throw new Error(`@reaction can only be applied to methods (${target.constructor.name}.${propertyKey})`);
+        }
+
+        const methods = reactionMethods.get(target) ?? [];
+        reactionMethods.set(target, [...methods, { methodName: propertyKey, props: new Set(props), options }]);
+    };
+}
+
+/**
+ * Remembers the previous value of a changed field for the {@link reaction()} methods of the model which react to it.
+ */
+export function recordReactionChange(model: Model, prop: string, previousValue: any) {
+    for (const method of getReactionMethods(model)) {
+        if (!method.props.has(prop)) {
+            continue;
+        }
+
+        const state = getReactionMethodState(model, method.methodName);
+        if (!state.previous.has(prop)) {
+            state.previous.set(prop, previousValue);
+        }
+    }
+}
+
+/**
+ * Forgets the change of a field which was reverted to the previous value remembered for the {@link reaction()} methods, e.g. by a rolled
+ * back batch, so the methods are not called for it.
+ */
+export function discardReactionChange(model: Model, prop: string, previousValue: any) {
+    for (const state of reactionMethodStates.get(model)?.values() ?? []) {
+        if (state.previous.has(prop) && Object.is(state.previous.get(prop), previousValue)) {
+            state.previous.delete(prop);
+        }
+    }
+}
+
+/**
+ * Calls, or schedules calls to, the {@link reaction()} methods of the model whose fields changed since they were last called.
+ */
+export function runReactionMethods(model: Model) {
+    const states = reactionMethodStates.get(model);
+    if (!states) {
+        return;
+    }
+
+    for (const method of getReactionMethods(model)) {
+        const state = states.get(method.methodName);
+        if (!state || state.previous.size === 0) {
+            continue;
+        }
+
+        const { debounce, throttle } = method.options;
+        if (debounce !== undefined) {
+            if (state.timer !== null) {
+                clearTimeout(state.timer);
+            }
+
+            state.timer = setTimeout(() => callReactionMethod(model, method, state), debounce);
+        } else if (throttle !== undefined) {
+            const wait = state.lastRun + throttle - Date.now();
+            if (wait <= 0 && state.timer === null) {
+                callReactionMethod(model, method, state);
+            } else if (state.timer === null) {
+                state.timer = setTimeout(() => callReactionMethod(model, method, state), wait);
+            }
+        } else {
+            callReactionMethod(model, method, state);
+        }
+    }
+}
+
+/**
+ * Cancels the delayed calls to the {@link reaction()} methods of the model.
+ */
+export function disposeReactionMethods(model: Model) {
+    for (const state of reactionMethodStates.get(model)?.values() ?? []) {
+        if (state.timer !== null) {
+            clearTimeout(state.timer);
+        }
+    }
+
+    reactionMethodStates.delete(model);
+}
+
+function getReactionMethods(model: Model): ReactionMethod[] {
+    const ctor = model.constructor;
+    let methods = resolvedReactionMethods.get(ctor);
+    if (!methods) {
+        methods = [];
+        for (let prototype = Object.getPrototypeOf(model); prototype; prototype = Object.getPrototypeOf(prototype)) {
+            methods.unshift(...(reactionMethods.get(prototype) ?? []));
+        }
+
+        resolvedReactionMethods.set(ctor, methods);
+    }
+
+    return methods;
+}
+
+function getReactionMethodState(model: Model, methodName: string): ReactionMethodState {
+    let states = reactionMethodStates.get(model);
+    if (!states) {
+        states = new Map();
+        reactionMethodStates.set(model, states);
+    }
+
+    let state = states.get(methodName);
+    if (!state) {
+        state = { previous: new Map(), timer: null, lastRun: 0 };
+        states.set(methodName, state);
+    }
+
+    return state;
+}
+
+function callReactionMethod(model: Model, method: ReactionMethod, state: ReactionMethodState) {
+    state.timer = null;
+    if (model.isDisposed || state.previous.size === 0) {
+        return;
+    }
+
+    const previous = Object.fromEntries(state.previous);
+    state.previous = new Map();
+    state.lastRun = Date.now();
+
+    try {
+        batch(() => model[method.methodName](previous));
+    } catch (e) {
+        model['handleError'](e, 'reaction');
+    }
+}
+
+function createReaction<T>(dataFn: () => T, effectFn: (value: T, previous: T) => void, options?: ReactionOptions<T>): Unsubscribe {
+    const equals = options?.equals ?? Object.is;
+    const dependencies = new Dependencies(() => {
+        const previous = value;
+        value = dependencies.track(dataFn);
+
+        if (!equals(previous, value)) {
+            effectFn(value, previous);
+        }
+    });
+
+    let value = dependencies.track(dataFn);
+    if (options?.fireImmediately) {
+        effectFn(value, undefined as unknown as T);
+    }
+
+    return () => dependencies.dispose();
+}
+
+type Subscription = [Set<string>, () => void];
+
+class Dependencies {
+    private readonly onChange: () => void;
+    private subscriptions: Map<Model, Subscription> = new Map();
+    private disposed: boolean = false;
+
+    constructor(onChange: () => void) {
+        this.onChange = onChange;
+    }
+
+    public track<T>(fn: () => T): T {
+        const accessed = new Map<Model, Set<string>>();
+
+        try {
+            return trackAccess((model, prop) => {
+                let props = accessed.get(model);
+                if (!props) {
+                    props = new Set();
+                    accessed.set(model, props);
+                }
+
+                props.add(prop);
+            }, fn);
+        } finally {
+            this.update(accessed);
+        }
+    }
+
+    public dispose() {
+        this.disposed = true;
+        this.update(new Map());
+    }
+
+    private update(accessed: Map<Model, Set<string>>) {
+        for (const [model, [, listener]] of this.subscriptions) {
+            if (this.disposed || !accessed.has(model)) {
+                model.removeListener(listener);
+                this.subscriptions.delete(model);
+            }
+        }
+
+        if (this.disposed) {
+            return;
+        }
+
+        for (const [model, props] of accessed) {
+            const subscription = this.subscriptions.get(model);
+            if (subscription) {
+                // the listener holds on to this set so it can be updated in place
+                const [subscribedProps] = subscription;
+                subscribedProps.clear();
+                props.forEach(p => subscribedProps.add(p));
+            } else {
+                const listener = () => {
+                    if (!this.disposed) {
+                        this.onChange();
+                    }
+                };
+
+                model.addListener(listener, props);
+                this.subscriptions.set(model, [props, listener]);
+            }
+        }
+    }
+}
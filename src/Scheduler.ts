@@ -0,0 +1,125 @@
+/**
+ * Function which runs the flush callback at some point after being called.
+ */
+export type Scheduler = (flush: () => void) => void;
+
+/**
+ * Names of the built-in schedulers:
+ * - `default` uses `setImmediate` if available, otherwise `setTimeout`
+ * - `sync` delivers notifications immediately
+ * - `microtask` uses `queueMicrotask`
+ * - `animationFrame` uses `requestAnimationFrame`
+ * - `timeout` uses `setTimeout`
+ */
+export type SchedulerName = 'default' | 'sync' | 'microtask' | 'animationFrame' | 'timeout';
+
+type Task = () => void;
+type TaskQueue = { tasks: Task[], scheduled: boolean };
+
+const timeoutScheduler: Scheduler = fn => setTimeout(fn, 0);
+
+const builtInSchedulers: Record<SchedulerName, Scheduler> = {
+    default: getDefaultScheduler(),
+    sync: fn => fn(),
+    microtask: typeof queueMicrotask === 'function'
+        ? fn => queueMicrotask(fn)
+        : fn => { Promise.resolve().then(fn); },
+    animationFrame: typeof requestAnimationFrame === 'function'
+        ? fn => { requestAnimationFrame(() => fn()); }
+        : timeoutScheduler,
+    timeout: timeoutScheduler,
+};
+
+let globalScheduler: Scheduler = builtInSchedulers.default;
+const queues: Map<Scheduler, TaskQueue> = new Map();
+
+/**
+ * Sets the scheduler used to deliver notifications for all models which do not override it.
+ * @param scheduler The name of a built-in scheduler or a custom scheduler function.
+ * @remarks Notifications of models which use the same scheduler are delivered in the order the changes were made. Models which override
+ * the scheduler have their own queue, so their notifications are not ordered with those of other models.
+ */
+export function configureScheduler(scheduler: Scheduler | SchedulerName) {
+    globalScheduler = resolveScheduler(scheduler);
+}
+
+/**
+ * Builds a scheduler which delivers notifications inside React's batched updates, so every component updated in the flush renders once.
+ * @param batchedUpdates `unstable_batchedUpdates` from `react-dom` or `react-native`.
+ * @param scheduler The scheduler which decides when the flush happens.
+ */
+export function batchedUpdatesScheduler(batchedUpdates: (fn: () => void) => void, scheduler: Scheduler | SchedulerName = 'default'): Scheduler {
+    const inner = resolveScheduler(scheduler);
+    return fn => inner(() => batchedUpdates(fn));
+}
+
+export function enqueue(task: Task, scheduler?: Scheduler | SchedulerName) {
+    const resolved = scheduler ? resolveScheduler(scheduler) : globalScheduler;
+
+    let queue = queues.get(resolved);
+    if (!queue) {
+        queue = { tasks: [], scheduled: false };
+        queues.set(resolved, queue);
+    }
+
+    queue.tasks.push(task);
+
+    if (!queue.scheduled) {
+        queue.scheduled = true;
+        resolved(() => flushQueue(queue!, resolved));
+    }
+}
+
+/**
+ * Runs every queued task immediately, including tasks queued while flushing, regardless of their scheduler.
+ */
+export function flushAllTasks() {
+    let flushed = true;
+    while (flushed) {
+        flushed = false;
+        for (const queue of queues.values()) {
+            while (queue.tasks.length > 0) {
+                const task = queue.tasks.shift();
+                task?.();
+                flushed = true;
+            }
+        }
+    }
+}
+
+function flushQueue(queue: TaskQueue, scheduler: Scheduler) {
+    try {
+        while (queue.tasks.length > 0) {
+            const task = queue.tasks.shift();
+            task?.();
+        }
+    } finally {
+        queue.scheduled = false;
+
+        if (queue.tasks.length > 0) {
+            queue.scheduled = true;
+            scheduler(() => flushQueue(queue, scheduler));
+        }
+    }
+}
+
+function resolveScheduler(scheduler: Scheduler | SchedulerName): Scheduler {
+    if (typeof scheduler === 'function') {
+        return scheduler;
+    }
+
+    const builtIn = builtInSchedulers[scheduler];
+    if (!builtIn) {
+        throw new Error(`Unknown scheduler '${scheduler}'`);
+    }
+
+    return builtIn;
+}
+
+function getDefaultScheduler(): Scheduler {
+    if (typeof window === 'object' && typeof window['setImmediate'] === 'function') {
+        return fn => window['setImmediate'](fn);
+    }
+
+    return timeoutScheduler;
+}
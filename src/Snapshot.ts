@@ -0,0 +1,107 @@
+import { createContext, createElement, ReactElement, ReactNode, useEffect } from 'react';
+import type { Model } from './Model';
+import { copyInto } from './Persistence';
+import { getPersistence } from './Persistence/Persistence';
+import { toSerializable } from './Persistence/Serialization';
+import { allowMutations } from './Strict';
+
+export const SnapshotContext = createContext<ModelSnapshot | null>(null);
+SnapshotContext.displayName = 'ModelSnapshot';
+
+/**
+ * Collects the state of the models provided while rendering on the server, and restores it into the matching models on the client.
+ * @remarks Models are matched by the id given to their ModelScope, or their class name. Only models with {@link prop()} fields are included.
+ */
+export class ModelSnapshot {
+    private readonly data: Record<string, any>;
+    private models: Map<string, Model> = new Map();
+    private hydrated: WeakSet<Model> = new WeakSet();
+    private released: boolean = false;
+
+    /**
+     * @param data The state of the models, as returned by {@link ModelSnapshot.toJSON()} on the server.
+     */
+    constructor(data: Record<string, any> = {}) {
+        this.data = data;
+    }
+
+    /**
+     * Creates a snapshot from the JSON payload produced by {@link ModelSnapshot.serialize()}.
+     */
+    public static parse(json: string): ModelSnapshot {
+        return new ModelSnapshot(JSON.parse(json));
+    }
+
+    /**
+     * Adds the model to the snapshot, and restores its state from the snapshot data the first time it is seen.
+     * @param key The key to store the model's state under. Models registered with the same key after the snapshot is released replace
+     * earlier ones, e.g. when a scope re-creates its model.
+     * @param model The model.
+     * @throws If another model was registered with the same key before the snapshot was released, because both models would be restored
+     * from the same state.
+     */
+    public register(key: string, model: Model) {
+        if (!getPersistence(model)) {
+            return;
+        }
+
+        const registered = this.models.get(key);
+        if (!this.released && registered && registered !== model && !registered.isDisposed) {
+            throw new Error(`ModelSnapshot: Another ${registered.constructor.name} is already registered with the key ${key} - give each ModelScope or ModelProviders entry a unique id`);
+        }
+
+        this.models.set(key, model);
+
+        if (!this.released && !this.hydrated.has(model)) {
+            this.hydrated.add(model);
+
+            const state = this.data[key];
+            if (state !== undefined) {
+                // models are hydrated while rendering on purpose
+                allowMutations(() => copyInto(model, state));
+            }
+        }
+    }
+
+    /**
+     * Stops restoring state into models registered after this. Called by {@link SnapshotProvider} once the first render is committed,
+     * so models re-created later start fresh.
+     */
+    public release() {
+        this.released = true;
+    }
+
+    /**
+     * Builds the state of all registered models.
+     */
+    public toJSON(): Record<string, any> {
+        const result = {};
+        for (const [key, model] of this.models) {
+            result[key] = toSerializable(model);
+        }
+
+        return result;
+    }
+
+    /**
+     * Serializes the state of all registered models to JSON.
+     * @remarks Escape the result before embedding it in a script tag.
+     */
+    public serialize(): string {
+        return JSON.stringify(this);
+    }
+}
+
+export interface SnapshotProviderProps {
+    snapshot: ModelSnapshot;
+    children?: ReactNode;
+}
+
+/**
+ * Makes the snapshot available to the ModelScope and ModelProviders components below it.
+ */
+export function SnapshotProvider({ snapshot, children }: SnapshotProviderProps): ReactElement {
+    useEffect(() => snapshot.release(), [snapshot]);
+
+    return createElement(SnapshotContext.Provider, { value: snapshot }, children);
+}
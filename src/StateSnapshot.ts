@@ -0,0 +1,136 @@
+import { Model, unwrapModel } from './Model';
+import { unwrapValue } from './Observable';
+import { getPersistence } from './Persistence/Persistence';
+
+/**
+ * The deeply frozen state of a model as returned by {@link getSnapshot()}. Nested models are snapshots too, Maps become plain objects
+ * and Sets become arrays.
+ */
+export type FrozenState<T> =
+    T extends Model ? { readonly [K in Exclude<keyof T, keyof Model> as T[K] extends Function ? never : K]: FrozenState<T[K]> } :
+    T extends Date ? T :
+    T extends ReadonlyArray<infer U> ? readonly FrozenState<U>[] :
+    T extends ReadonlyMap<any, infer V> ? { readonly [key: string]: FrozenState<V> } :
+    T extends ReadonlySet<infer U> ? readonly FrozenState<U>[] :
+    T extends object ? { readonly [K in keyof T as T[K] extends Function ? never : K]: FrozenState<T[K]> } :
+    T;
+
+type CachedSnapshot = { state: any, stale: boolean, nested: Map<Model, any> };
+
+const snapshots = new WeakMap<Model, CachedSnapshot>();
+
+// the models and objects which are being frozen, to detect cycles
+const freezing = new Set<object>();
+
+/**
+ * Gets the state of the model's {@link watch()}ed and {@link prop()} fields as a deeply frozen plain object. The snapshot is cached until
+ * the model notifies its listeners, and parts of it which did not change are reused by the next snapshot, so snapshots can be compared
+ * by reference (e.g. in React.memo).
+ * @remarks Changes to nested objects which are not models, or to collections which are not observable, are only picked up when the model
+ * notifies its listeners. Models and objects which reference themselves, e.g. a child model with a field pointing to its parent, cannot be
+ * frozen and throw an error.
+ */
+export function getSnapshot<T extends Model>(model: T): FrozenState<T> {
+    model = unwrapModel(model);
+    const cached = snapshots.get(model);
+    if (cached && !cached.stale && [...cached.nested].every(([nested, state]) => getSnapshot(nested) === state)) {
+        return cached.state;
+    }
+
+    const nested = new Map<Model, any>();
+    const state = freezeOnce(model, () => freezeModel(model, cached?.state, nested));
+    snapshots.set(model, { state, stale: false, nested });
+    return state;
+}
+
+/**
+ * Marks the cached snapshot of the model as outdated.
+ */
+export function invalidateSnapshot(model: Model) {
+    const cached = snapshots.get(unwrapModel(model));
+    if (cached) {
+        cached.stale = true;
+    }
+}
+
+function freezeModel(model: Model, previous: any, nested: Map<Model, any>): any {
+    const values: [string, any][] = [];
+    for (const [key, value] of model['props'] as Map<string | symbol, any>) {
+        if (typeof key === 'string') {
+            values.push([key, value]);
+        }
+    }
+
+    for (const [name, field] of getPersistence(model)?.fields ?? []) {
+        const key = field.propertyName ?? name;
+        if (!values.some(([k]) => k === key)) {
+            values.push([key, field.get(model)]);
+        }
+    }
+
+    return freezeEntries(values, previous, nested);
+}
+
+function freezeValue(value: any, previous: any, nested: Map<Model, any>): any {
+    value = unwrapValue(value);
+    if (value === null || typeof value !== 'object' || value instanceof Date) {
+        return value;
+    }
+
+    if (value instanceof Model) {
+        const state = getSnapshot(value);
+        nested.set(value, state);
+        return state;
+    }
+
+    return freezeOnce(value, () => freezeObject(value, previous, nested));
+}
+
+function freezeObject(value: object, previous: any, nested: Map<Model, any>): any {
+    if (Array.isArray(value) || value instanceof Set) {
+        const items = [...value];
+        const prevItems = Array.isArray(previous) ? previous : [];
+        const frozen = items.map((item, i) => freezeValue(item, prevItems[i], nested));
+
+        const unchanged = prevItems === previous && frozen.length === prevItems.length && frozen.every((item, i) => item === prevItems[i]);
+        return unchanged ? previous : Object.freeze(frozen);
+    }
+
+    if (value instanceof Map) {
+        return freezeEntries([...value].map(([key, item]) => [`${key}`, item]), previous, nested);
+    }
+
+    const persistence = getPersistence(value);
+    if (persistence && persistence.fields.size > 0) {
+        const entries = [...persistence.fields].map(([name, field]): [string, any] => [field.propertyName ?? name, field.get(value)]);
+        return freezeEntries(entries, previous, nested);
+    }
+
+    return freezeEntries(Object.entries(value), previous, nested);
+}
+
+function freezeOnce<T>(value: object, freeze: () => T): T {
+    if (freezing.has(value)) {
+        const name = value instanceof Model ? value.constructor.name : 'An object';
+        throw new Error(`getSnapshot: ${name} references itself through its fields, which a snapshot cannot contain`);
+    }
+
+    freezing.add(value);
+    try {
+        return freeze();
+    } finally {
+        freezing.delete(value);
+    }
+}
+
+function freezeEntries(entries: [string, any][], previous: any, nested: Map<Model, any>): any {
+    const prevState = previous !== null && typeof previous === 'object' && !Array.isArray(previous) ? previous : {};
+    const frozen = {};
+    for (const [key, value] of entries) {
+        frozen[key] = freezeValue(value, prevState[key], nested);
+    }
+
+    const keys = Object.keys(frozen);
+    const unchanged = previous === prevState && keys.length === Object.keys(prevState).length && keys.every(key => frozen[key] === prevState[key]);
+    return unchanged ? previous : Object.freeze(frozen);
+}
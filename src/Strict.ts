@@ -0,0 +1,78 @@
+import * as React from 'react';
+import type { Model } from './Model';
+import { isBatching } from './Batch';
+
+/**
+ * How to report a strict mode violation: not at all, with console.warn, or by throwing an error from the assignment.
+ */
+export type StrictModeLevel = 'off' | 'warn' | 'throw';
+
+export interface StrictModeOptions {
+    /**
+     * Reports changes to {@link watch()}ed fields made outside of an {@link action()} or {@link batch()}. Defaults to 'off'.
+     * @remarks Code after an `await` is not part of the action which started it, so wrap changes made there in {@link batch()}.
+     * Only changes to models with listeners are reported, so constructors and factories can set up the models they create.
+     */
+    readonly enforceActions?: StrictModeLevel;
+
+    /**
+     * Reports changes to {@link watch()}ed fields made while a component is rendering, even inside an action. Defaults to 'off'.
+     * @remarks Rendering can only be detected with React's development build. Only changes to models with listeners are reported, so
+     * models created while rendering (e.g. by the `create` function of a model scope) can be set up before anything watches them.
+     */
+    readonly renderMutations?: StrictModeLevel;
+}
+
+let enforceActions: StrictModeLevel = 'off';
+let renderMutations: StrictModeLevel = 'off';
+let allowed = 0;
+
+/**
+ * Configures which changes to models are reported as mistakes. This is meant for development, similar to MobX's enforceActions.
+ */
+export function configureStrictMode(options: StrictModeOptions) {
+    enforceActions = options.enforceActions ?? enforceActions;
+    renderMutations = options.renderMutations ?? renderMutations;
+}
+
+/**
+ * Reports the change to a field of the model if it breaks the configured strict mode rules.
+ * @remarks Like MobX's 'observed' mode, models without listeners are not checked: nothing can see their changes yet.
+ */
+export function checkMutation(model: Model, prop: string | symbol) {
+    if (allowed > 0 || (enforceActions === 'off' && renderMutations === 'off') || !model.hasListeners) {
+        return;
+    }
+
+    const name = `${model.constructor.name}.${String(prop)}`;
+    if (renderMutations !== 'off' && isRendering()) {
+        report(renderMutations, `${name} was changed while rendering - change models in effects or event handlers instead`);
+    } else if (enforceActions !== 'off' && !isBatching()) {
+        report(enforceActions, `${name} was changed outside of an action - use @action or batch() to change it`);
+    }
+}
+
+/**
+ * Runs the function without checking the changes it makes, for changes the library makes on purpose (e.g. hydrating models while rendering).
+ */
+export function allowMutations<T>(fn: () => T): T {
+    allowed++;
+    try {
+        return fn();
+    } finally {
+        allowed--;
+    }
+}
+
+function isRendering(): boolean {
+    const internals = React['__SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED'];
+    return !!internals?.ReactCurrentOwner?.current;
+}
+
+function report(level: StrictModeLevel, message: string) {
+    if (level === 'throw') {
+        throw new Error(message);
+    }
+
+    console.warn(message);
+}
@@ -0,0 +1,92 @@
+import { Model, unwrapModel } from './Model';
+import { asyncAction, AsyncActionOptions } from './Actions';
+
+type PromiseState = { status: 'pending' | 'fulfilled' | 'rejected', error: any };
+
+const promiseStates = new WeakMap<PromiseLike<any>, PromiseState>();
+const loads = new WeakMap<Model, Map<string, PromiseLike<any>>>();
+
+/**
+ * Method decorator for async methods which load the data of the model. Works like {@link asyncAction()}, but components using the model
+ * with `useModel({ suspend: true })` or {@link suspendUntilReady()} suspend while a call is in progress, and rethrow the error to the
+ * nearest error boundary if the latest call failed.
+ * @param options Options for how to handle errors and repeated calls. Errors are always rethrown to the caller.
+ */
+export function load(options?: AsyncActionOptions) {
+    return <T extends Model>(target: T, propertyKey: string, descriptor: PropertyDescriptor): any => {
+        const tracked = asyncAction({ ...options, rethrow: true })(target, propertyKey, descriptor);
+        const method = tracked.value;
+
+        return {
+            ...tracked,
+            value(this: T, ...args: any[]) {
+                const promise = method.apply(this, args);
+
+                // calls made through the tracking proxy of useModel must suspend every component using the model
+                const model = unwrapModel(this);
+                let modelLoads = loads.get(model);
+                if (!modelLoads) {
+                    modelLoads = new Map();
+                    loads.set(model, modelLoads);
+                }
+
+                modelLoads.set(propertyKey, trackPromise(promise));
+                return promise;
+            },
+        };
+    };
+}
+
+/**
+ * Suspends the component while the model is loading: while its `ready` field holds an unsettled promise, or a {@link load()} method
+ * is in progress. Throws the error of a rejected `ready` promise or failed {@link load()} call so the nearest error boundary handles it.
+ * This can only be called while rendering.
+ * @param model The model, or the value returned for it by `useModel` or `watchModel`. Reading it through those tracks the `ready` field
+ * and the {@link load()} methods, so the component suspends again when a new load starts.
+ */
+export function suspendUntilReady(model: Model) {
+    // read through the tracking proxy (if any) so the component re-renders when loading starts again
+    const ready = model['ready'];
+    model.isPending;
+
+    const promises: PromiseLike<any>[] = [];
+    if (ready && typeof ready.then === 'function') {
+        promises.push(trackPromise(ready));
+    }
+
+    promises.push(...(loads.get(unwrapModel(model))?.values() ?? []));
+
+    const pending: PromiseLike<any>[] = [];
+    for (const promise of promises) {
+        const state = promiseStates.get(promise)!;
+        if (state.status === 'rejected') {
+            throw state.error;
+        }
+
+        if (state.status === 'pending') {
+            pending.push(promise);
+        }
+    }
+
+    if (pending.length > 0) {
+        // React only needs to know when to try rendering again, errors are thrown by the next render
+        throw Promise.all(pending).then(() => undefined, () => undefined);
+    }
+}
+
+function trackPromise<T>(promise: PromiseLike<T>): PromiseLike<T> {
+    if (!promiseStates.has(promise)) {
+        const state: PromiseState = { status: 'pending', error: undefined };
+        promiseStates.set(promise, state);
+        promise.then(
+            () => {
+                state.status = 'fulfilled';
+            },
+            error => {
+                state.status = 'rejected';
+                state.error = error;
+            });
+    }
+
+    return promise;
+}
@@ -0,0 +1,52 @@
+import * as React from 'react';
+import { useEffect, useLayoutEffect, useState } from 'react';
+
+type Subscribe = (onStoreChange: () => void) => () => void;
+type Instance<T> = { value: T, getSnapshot: () => T };
+
+/**
+ * Uses React's built-in useSyncExternalStore when available (React 18+), otherwise falls back to an equivalent implementation built on effects.
+ */
+export const useSyncExternalStore: <T>(subscribe: Subscribe, getSnapshot: () => T, getServerSnapshot?: () => T) => T =
+    React['useSyncExternalStore'] ?? useSyncExternalStoreShim;
+
+// React 16 and 17 warn about layout effects while rendering on the server, and they don't run there anyway
+const useIsomorphicLayoutEffect = typeof window !== 'undefined' && typeof window.document?.createElement === 'function'
+    ? useLayoutEffect
+    : useEffect;
+
+function useSyncExternalStoreShim<T>(subscribe: Subscribe, getSnapshot: () => T): T {
+    const value = getSnapshot();
+    const [{ instance }, forceUpdate] = useState<{ instance: Instance<T> }>(() => ({ instance: { value, getSnapshot } }));
+
+    // keep the instance in sync with the latest render and catch changes which happened before the subscription is set up
+    useIsomorphicLayoutEffect(() => {
+        instance.value = value;
+        instance.getSnapshot = getSnapshot;
+
+        if (snapshotChanged(instance)) {
+            forceUpdate({ instance });
+        }
+    }, [subscribe, value, getSnapshot]);
+
+    useEffect(() => {
+        const handleStoreChange = () => {
+            if (snapshotChanged(instance)) {
+                forceUpdate({ instance });
+            }
+        };
+
+        handleStoreChange();
+        return subscribe(handleStoreChange);
+    }, [subscribe]);
+
+    return value;
+}
+
+function snapshotChanged<T>(instance: Instance<T>) {
+    try {
+        return !Object.is(instance.value, instance.getSnapshot());
+    } catch {
+        return true;
+    }
+}
@@ -0,0 +1,29 @@
+import type { Model } from './Model';
+
+type AccessObserver = (model: Model, prop: string) => void;
+
+const observers: AccessObserver[] = [];
+
+/**
+ * Reports that a watched property was read so the innermost active observer can record it as a dependency.
+ */
+export function reportAccess(model: Model, prop: string | symbol) {
+    if (observers.length > 0 && typeof prop === 'string') {
+        observers[observers.length - 1](model, prop);
+    }
+}
+
+/**
+ * Runs the given function while recording every watched property it reads.
+ * @param observer Called for each property read while {@link fn} is running. Nested tracking only reports to the innermost observer.
+ * @param fn The function to run.
+ * @returns The return value of {@link fn}.
+ */
+export function trackAccess<T>(observer: AccessObserver, fn: () => T): T {
+    observers.push(observer);
+    try {
+        return fn();
+    } finally {
+        observers.pop();
+    }
+}
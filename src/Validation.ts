@@ -0,0 +1,316 @@
+import { Model, unwrapModel } from './Model';
+import { reportAccess, trackAccess } from './Tracking';
+
+/**
+ * The error message for an invalid value, or null/undefined if the value is valid.
+ */
+export type ValidationResult = string | null | undefined;
+
+/**
+ * Checks the value of a field. Async validators return a promise of the result.
+ * @param value The value of the field.
+ * @param model The model the field belongs to.
+ */
+export type Validator<T = any> = (value: T, model: any) => ValidationResult | Promise<ValidationResult>;
+
+/**
+ * Thrown or reported when a model is given invalid values.
+ */
+export class ValidationError extends Error {
+    /**
+     * The error messages, by field name.
+     */
+    public readonly errors: ReadonlyMap<string, string>;
+
+    constructor(modelName: string, errors: ReadonlyMap<string, string>) {
+        super(`Invalid values for ${modelName}: ${[...errors].map(([name, message]) => `${name} (${message})`).join(', ')}`);
+        this.name = 'ValidationError';
+        this.errors = errors;
+    }
+}
+
+type ValidationState = {
+    errors: ReadonlyMap<string, string>;
+    pending: Map<string, Promise<void>>;
+};
+
+type Rules = Map<string, Validator[]>;
+
+const rules = new WeakMap<object, Rules>();
+const states = new WeakMap<Model, ValidationState>();
+
+/**
+ * Field decorator which requires the field to have a value. null, undefined, empty strings and empty arrays are invalid.
+ * @param message The error message.
+ */
+export function required(message: string = 'Required') {
+    return validate(value => {
+        const empty = value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+        return empty ? message : undefined;
+    });
+}
+
+/**
+ * Field decorator which requires a numeric field to be within the range. Missing values are valid - combine this with {@link required()} to require them.
+ * @param min The minimum value, or undefined for no minimum.
+ * @param max The maximum value, or undefined for no maximum.
+ * @param message The error message.
+ */
+export function range(min: number | undefined, max: number | undefined, message?: string) {
+    return validate((value: number | null | undefined) => {
+        if (value === undefined || value === null) {
+            return undefined;
+        }
+
+        if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+            return message ?? rangeMessage(min, max);
+        }
+
+        return undefined;
+    });
+}
+
+/**
+ * Field decorator which requires a string field to match the regular expression. Missing and empty values are valid - combine this
+ * with {@link required()} to require them.
+ * @param regex The regular expression.
+ * @param message The error message.
+ */
+export function pattern(regex: RegExp, message: string = 'Invalid format') {
+    return validate((value: string | null | undefined) => {
+        if (value === undefined || value === null || value === '') {
+            return undefined;
+        }
+
+        regex.lastIndex = 0;
+        return regex.test(String(value)) ? undefined : message;
+    });
+}
+
+/**
+ * Field decorator which checks the field with a custom validator. The validator can be async.
+ * @param validator Returns the error message for invalid values.
+ * @remarks Validators run in the order they are declared, and stop at the first error. Async validators only run when all synchronous
+ * validators on the field pass.
+ */
+export function validate<TValue = any>(validator: Validator<TValue>) {
+    return <T extends Model>(target: T, propertyKey: string, prevDesc?: any): any => {
+        let targetRules = rules.get(target);
+        if (!targetRules) {
+            targetRules = new Map();
+            rules.set(target, targetRules);
+        }
+
+        // decorators are applied bottom to top, but validators should run in the order they are declared
+        const validators = targetRules.get(propertyKey) ?? [];
+        targetRules.set(propertyKey, [validator, ...validators]);
+    };
+}
+
+/**
+ * Validates all fields of the model, and waits for async validators to finish.
+ * @returns True if the model is valid.
+ */
+export async function validateModel(model: Model): Promise<boolean> {
+    if (states.has(model)) {
+        revalidate(model, []);
+    }
+
+    const state = getValidationState(model, true);
+
+    while (state.pending.size > 0) {
+        await Promise.all(state.pending.values());
+    }
+
+    return state.errors.size === 0;
+}
+
+/**
+ * Gets the error messages of the model's fields which failed validation, by field name. Validation of the model starts the first time
+ * this is called.
+ * @param model The model, or the value returned for it by `useModel` or `watchModel` to re-render the component when the errors change.
+ * @remarks Listeners are notified under the name 'errors' when this changes.
+ */
+export function getErrors(model: Model): ReadonlyMap<string, string> {
+    trackValidation(model, 'errors');
+    return getValidationErrors(unwrapModel(model));
+}
+
+/**
+ * Checks if all fields of the model passed validation. Pending async validators are not counted as errors.
+ * @param model The model, or the value returned for it by `useModel` or `watchModel` to re-render the component when this changes.
+ * @remarks Listeners are notified under the name 'isValid' when this changes.
+ */
+export function isValid(model: Model): boolean {
+    trackValidation(model, 'isValid');
+    return getValidationErrors(unwrapModel(model)).size === 0;
+}
+
+/**
+ * Gets the current error messages of the model, by field name. Validation starts the first time this is called for a model.
+ */
+export function getValidationErrors(model: Model): ReadonlyMap<string, string> {
+    return getValidationState(model, true).errors;
+}
+
+/**
+ * Re-runs the validators of the changed fields if validation of the model was started. An empty list re-runs all validators.
+ */
+export function revalidate(model: Model, propNames: readonly string[]) {
+    const state = getValidationState(model, false);
+    if (!state) {
+        return;
+    }
+
+    const modelRules = getRules(model);
+    const names = propNames.length > 0
+        ? propNames.filter(name => modelRules.has(name))
+        : [...modelRules.keys()];
+
+    if (names.length > 0) {
+        runValidators(model, state, modelRules, names, true);
+    }
+}
+
+/**
+ * Runs the synchronous validators of the model type against the given values, without changing the model.
+ * @param values The values to check, by field name.
+ * @returns The error messages, by field name.
+ */
+export function checkValues(model: Model, values: Iterable<[string, any]>): ReadonlyMap<string, string> {
+    const modelRules = getRules(model);
+    const errors = new Map<string, string>();
+    for (const [name, value] of values) {
+        for (const validator of modelRules.get(name) ?? []) {
+            const result = validator(value, model);
+            if (typeof result === 'string' && result) {
+                errors.set(name, result);
+                break;
+            }
+        }
+    }
+
+    return errors;
+}
+
+function trackValidation(model: Model, name: string) {
+    // read through the tracking proxy (if any) so the component re-renders when the validation state changes
+    model[name];
+    reportAccess(unwrapModel(model), name);
+}
+
+function getValidationState(model: Model, create: true): ValidationState;
+function getValidationState(model: Model, create: false): ValidationState | undefined;
+function getValidationState(model: Model, create: boolean): ValidationState | undefined {
+    let state = states.get(model);
+    if (!state && create) {
+        state = { errors: new Map(), pending: new Map() };
+        states.set(model, state);
+
+        // the first validation happens while the errors are read, so it must not notify
+        const modelRules = getRules(model);
+        runValidators(model, state, modelRules, [...modelRules.keys()], false);
+    }
+
+    return state;
+}
+
+function getRules(model: Model): Rules {
+    const result: Rules = new Map();
+    const prototypes: object[] = [];
+    for (let prototype = Object.getPrototypeOf(model); prototype; prototype = Object.getPrototypeOf(prototype)) {
+        prototypes.unshift(prototype);
+    }
+
+    // base type validators run first
+    for (const prototype of prototypes) {
+        for (const [name, validators] of rules.get(prototype) ?? []) {
+            result.set(name, [...(result.get(name) ?? []), ...validators]);
+        }
+    }
+
+    return result;
+}
+
+function runValidators(model: Model, state: ValidationState, modelRules: Rules, names: readonly string[], notify: boolean) {
+    const errors = new Map(state.errors);
+
+    for (const name of names) {
+        state.pending.delete(name);
+        errors.delete(name);
+
+        // reading the fields here should not make the code reading the errors depend on them
+        const value = trackAccess(() => {}, () => model[name]);
+
+        const asyncResults: Promise<ValidationResult>[] = [];
+        for (const validator of modelRules.get(name) ?? []) {
+            let result: ValidationResult | Promise<ValidationResult>;
+            try {
+                result = validator(value, model);
+            } catch (e) {
+                model['handleError'](e, 'validation');
+                continue;
+            }
+
+            if (result instanceof Promise) {
+                asyncResults.push(result);
+            } else if (result) {
+                errors.set(name, result);
+                break;
+            }
+        }
+
+        if (!errors.has(name) && asyncResults.length > 0) {
+            const pending = Promise.all(asyncResults).then(
+                results => {
+                    if (state.pending.get(name) === pending) {
+                        state.pending.delete(name);
+                        setError(model, state, name, results.find(result => !!result));
+                    }
+                },
+                e => {
+                    if (state.pending.get(name) === pending) {
+                        state.pending.delete(name);
+                        model['handleError'](e, 'validation');
+                    }
+                });
+
+            state.pending.set(name, pending);
+        }
+    }
+
+    updateErrors(model, state, errors, notify);
+}
+
+function setError(model: Model, state: ValidationState, name: string, message: ValidationResult) {
+    const errors = new Map(state.errors);
+    if (message) {
+        errors.set(name, message);
+    } else {
+        errors.delete(name);
+    }
+
+    updateErrors(model, state, errors, true);
+}
+
+function updateErrors(model: Model, state: ValidationState, errors: Map<string, string>, notify: boolean) {
+    const previous = state.errors;
+    if (errors.size === previous.size && [...errors].every(([name, message]) => previous.get(name) === message)) {
+        return;
+    }
+
+    state.errors = errors;
+
+    if (notify) {
+        const validityChanged = (errors.size === 0) !== (previous.size === 0);
+        model.notifyListeners(...(validityChanged ? ['errors', 'isValid'] : ['errors']));
+    }
+}
+
+function rangeMessage(min: number | undefined, max: number | undefined) {
+    if (min !== undefined && max !== undefined) {
+        return `Must be between ${min} and ${max}`;
+    }
+
+    return min !== undefined ? `Must be at least ${min}` : `Must be at most ${max}`;
+}
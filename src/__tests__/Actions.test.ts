@@ -0,0 +1,125 @@
+import { action, asyncAction } from '../Actions';
+import { Model, watch } from '../Model';
+import { flushModelUpdates } from '../testing';
+import { defer, Deferred } from './helpers';
+
+class ProfileModel extends Model {
+    public errors: any[] = [];
+    public requests: Deferred<string>[] = [];
+    public signals: (AbortSignal | undefined)[] = [];
+
+    @watch
+    public name: string = '';
+
+    @watch
+    public email: string = '';
+
+    @action
+    public update(name: string, email: string) {
+        this.name = name;
+        this.email = email;
+    }
+
+    @asyncAction()
+    public async load() {
+        const request = defer<string>();
+        this.requests.push(request);
+        this.name = await request.promise;
+        return this.name;
+    }
+
+    @asyncAction({ cancelSuperseded: true })
+    public async search(query: string) {
+        this.signals.push(this.actionSignal('search'));
+        const request = defer<string>();
+        this.requests.push(request);
+        return `${query}: ${await request.promise}`;
+    }
+
+    @asyncAction({ rethrow: true })
+    public async save() {
+        throw new Error('save failed');
+    }
+
+    protected handleError(e: any) {
+        this.errors.push(e);
+    }
+}
+
+describe('@action', () => {
+    it('notifies listeners once for all changes', async () => {
+        const profile = new ProfileModel();
+        await flushModelUpdates();
+        const notifications = jest.spyOn(profile as any, 'scheduleNotification');
+
+        profile.update('Ada', 'ada@example.com');
+        expect(notifications).toHaveBeenCalledTimes(1);
+        expect(notifications).toHaveBeenCalledWith(['name', 'email']);
+    });
+});
+
+describe('@asyncAction', () => {
+    it('tracks pending calls', async () => {
+        const profile = new ProfileModel();
+        expect(profile.isPending('load')).toBe(false);
+
+        const result = profile.load();
+        expect(profile.isPending('load')).toBe(true);
+
+        profile.requests[0].resolve('Ada');
+        expect(await result).toBe('Ada');
+        expect(profile.isPending('load')).toBe(false);
+    });
+
+    it('notifies listeners when the pending state changes', async () => {
+        const profile = new ProfileModel();
+        await flushModelUpdates();
+        const listener = jest.fn();
+        profile.addListener(listener, new Set(['isPending']));
+
+        const result = profile.load();
+        await flushModelUpdates();
+        expect(listener).toHaveBeenCalledTimes(1);
+
+        profile.requests[0].resolve('Ada');
+        await result;
+        await flushModelUpdates();
+        expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('passes errors to the error handler', async () => {
+        const profile = new ProfileModel();
+        const error = new Error('load failed');
+
+        const result = profile.load();
+        profile.requests[0].reject(error);
+        expect(await result).toBeUndefined();
+        expect(profile.lastError('load')).toBe(error);
+        expect(profile.errors).toStrictEqual([error]);
+
+        profile.load();
+        expect(profile.lastError('load')).toBeUndefined();
+    });
+
+    it('rejects when configured to rethrow', async () => {
+        const profile = new ProfileModel();
+        await expect(profile.save()).rejects.toThrow('save failed');
+        expect(profile.errors).toHaveLength(1);
+    });
+
+    it('cancels superseded calls', async () => {
+        const profile = new ProfileModel();
+
+        const first = profile.search('a');
+        const second = profile.search('ab');
+        expect(profile.signals[0]?.aborted).toBe(true);
+        expect(profile.signals[1]?.aborted).toBe(false);
+
+        profile.requests[0].reject(new Error('aborted'));
+        profile.requests[1].resolve('found');
+        expect(await first).toBeUndefined();
+        expect(await second).toBe('ab: found');
+        expect(profile.lastError('search')).toBeUndefined();
+        expect(profile.errors).toHaveLength(0);
+    });
+});
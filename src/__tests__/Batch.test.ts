@@ -0,0 +1,124 @@
+import { batch } from '../Batch';
+import { computed, Model, watch } from '../Model';
+import { flushModelUpdates } from '../testing';
+
+class PointModel extends Model {
+    @watch
+    public x: number = 0;
+
+    @watch
+    public y: number = 0;
+
+    @computed
+    public get sum() {
+        return this.x + this.y;
+    }
+}
+
+function spyOnNotifications(model: Model) {
+    return jest.spyOn(model as any, 'scheduleNotification');
+}
+
+describe('#batch', () => {
+    it('notifies listeners once with all changed props', async () => {
+        const point = new PointModel();
+        await flushModelUpdates();
+
+        const listener = jest.fn();
+        point.addListener(listener, new Set(['x']));
+        const notifications = spyOnNotifications(point);
+
+        batch(() => {
+            point.x = 1;
+            point.y = 2;
+            expect(notifications).not.toHaveBeenCalled();
+        });
+
+        expect(notifications).toHaveBeenCalledTimes(1);
+        expect(notifications).toHaveBeenCalledWith(['x', 'y']);
+        await flushModelUpdates();
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps computed values up to date inside the batch', () => {
+        const point = new PointModel();
+        expect(point.sum).toBe(0);
+
+        point.batch(() => {
+            point.x = 5;
+            expect(point.sum).toBe(5);
+        });
+    });
+
+    it('defers notifications until the outermost batch completes', () => {
+        const a = new PointModel();
+        const b = new PointModel();
+        const aNotifications = spyOnNotifications(a);
+        const bNotifications = spyOnNotifications(b);
+
+        batch(() => {
+            batch(() => {
+                a.x = 1;
+            });
+
+            expect(aNotifications).not.toHaveBeenCalled();
+            b.y = 1;
+        });
+
+        expect(aNotifications).toHaveBeenCalledWith(['x']);
+        expect(bNotifications).toHaveBeenCalledWith(['y']);
+    });
+
+    it('keeps changes made before an error by default', () => {
+        const point = new PointModel();
+        const notifications = spyOnNotifications(point);
+
+        expect(() => batch(() => {
+            point.x = 1;
+            throw new Error('failed');
+        })).toThrow('failed');
+
+        expect(point.x).toBe(1);
+        expect(notifications).toHaveBeenCalledWith(['x']);
+    });
+
+    it('rolls back changes when configured', () => {
+        const point = new PointModel();
+        point.x = 1;
+        expect(point.sum).toBe(1);
+        const notifications = spyOnNotifications(point);
+
+        expect(() => batch(() => {
+            point.x = 2;
+            point.x = 3;
+            point.y = 4;
+            expect(point.sum).toBe(7);
+            throw new Error('failed');
+        }, { rollbackOnError: true })).toThrow('failed');
+
+        expect(point.x).toBe(1);
+        expect(point.y).toBe(0);
+        expect(point.sum).toBe(1);
+        expect(notifications).not.toHaveBeenCalled();
+    });
+
+    it('only rolls back the failed nested batch', () => {
+        const point = new PointModel();
+        const notifications = spyOnNotifications(point);
+
+        batch(() => {
+            point.x = 1;
+
+            try {
+                batch(() => {
+                    point.y = 2;
+                    throw new Error('failed');
+                }, { rollbackOnError: true });
+            } catch {}
+        });
+
+        expect(point.x).toBe(1);
+        expect(point.y).toBe(0);
+        expect(notifications).toHaveBeenCalledWith(['x']);
+    });
+});
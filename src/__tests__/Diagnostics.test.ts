@@ -0,0 +1,107 @@
+import { createElement } from 'react';
+import TestRenderer, { act, ReactTestRenderer } from 'react-test-renderer';
+import { configureListenerDiagnostics, getListenerReport } from '../Diagnostics';
+import { defineModel, Model, watch } from '../Model';
+
+class ReportingModel extends Model {
+    public errors: Error[] = [];
+
+    @watch
+    public count: number = 0;
+
+    protected handleError(e: any) {
+        this.errors.push(e);
+    }
+}
+
+class LeakyModel extends ReportingModel {
+    public static maxListeners = 3;
+}
+
+const [LeakyProvider, useLeaky, , , useLeakySelector] = defineModel(LeakyModel);
+
+const Header = (): any => useLeaky().count;
+const Footer = (): any => useLeakySelector(model => model.count);
+
+describe('listener diagnostics', () => {
+    let renderer: ReactTestRenderer | null = null;
+
+    function render(model: LeakyModel, ...components: (() => any)[]) {
+        act(() => {
+            renderer = TestRenderer.create(createElement(LeakyProvider, { value: model }, ...components.map(component => createElement(component))));
+        });
+    }
+
+    afterEach(() => {
+        if (renderer) {
+            act(() => renderer!.unmount());
+            renderer = null;
+        }
+
+        configureListenerDiagnostics({ maxListeners: 100, captureStackTraces: false });
+    });
+
+    it('reports a leak once the threshold is crossed', () => {
+        const model = new LeakyModel();
+        for (let i = 0; i < 5; i++) {
+            model.addListener(() => {});
+        }
+
+        expect(model.errors).toHaveLength(1);
+        expect(model.errors[0].message).toBe('Too many listeners on LeakyModel (4)');
+    });
+
+    it('uses the globally configured threshold', () => {
+        configureListenerDiagnostics({ maxListeners: 1 });
+        const model = new ReportingModel();
+        model.addListener(() => {});
+        model.addListener(() => {});
+        expect(model.errors).toHaveLength(1);
+    });
+
+    it('includes the components which added the listeners when capturing stack traces', () => {
+        configureListenerDiagnostics({ captureStackTraces: true });
+        const model = new LeakyModel();
+        render(model, Header, Header, Header, Header);
+
+        expect(model.errors[0].message).toMatch(/4 of them were added from:\n(.*\n)*.*\bHeader\b/);
+    });
+
+    it('groups listeners by the component which added them', () => {
+        configureListenerDiagnostics({ captureStackTraces: true });
+        const model = new LeakyModel();
+        render(model, Header, Footer, Header);
+
+        const report = getListenerReport(model);
+        expect(report).toHaveLength(2);
+        expect(report[0].count).toBe(2);
+        expect(report[0].origin).toMatch(/\bHeader\b/);
+        expect(report[1].count).toBe(1);
+        expect(report[1].origin).toMatch(/\bFooter\b/);
+    });
+
+    it('groups listeners by props', () => {
+        configureListenerDiagnostics({ captureStackTraces: true });
+        const model = new LeakyModel();
+        for (const props of [new Set(['b', 'a']), new Set(['a', 'b']), undefined]) {
+            model.addListener(() => {}, props);
+        }
+
+        const report = getListenerReport(model);
+        expect(report).toHaveLength(2);
+        expect(report[0].count).toBe(2);
+        expect(report[0].props).toStrictEqual(['a', 'b']);
+        expect(report[1].props).toBeNull();
+    });
+
+    it('detects listeners added twice and removes one copy at a time', () => {
+        const model = new LeakyModel();
+        const listener = () => {};
+        model.addListener(listener);
+        model.addListener(listener, new Set(['a']));
+        expect(model.errors[0].message).toMatch(/more than once/);
+
+        model.removeListener(listener);
+        expect(getListenerReport(model)).toStrictEqual([{ origin: null, props: null, count: 1 }]);
+    });
+});
@@ -0,0 +1,37 @@
+import { deepEqual, shallowEqual } from '../Equality';
+
+describe('#deepEqual', () => {
+    it('compares nested values', () => {
+        expect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true);
+        expect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false);
+        expect(deepEqual(null, {})).toBe(false);
+    });
+
+    it('uses equals methods', () => {
+        class Id {
+            constructor(public value: string) {}
+            public equals(other: Id) {
+                return this.value.toLowerCase() === other.value.toLowerCase();
+            }
+        }
+
+        expect(deepEqual(new Id('a'), new Id('A'))).toBe(true);
+    });
+
+    it('compares dates by time', () => {
+        expect(deepEqual(new Date(1000), new Date(1000))).toBe(true);
+        expect(deepEqual(new Date(1000), 1)).toBe(true);
+    });
+});
+
+describe('#shallowEqual', () => {
+    it('compares collections by their items', () => {
+        const item = {};
+        expect(shallowEqual([1, item], [1, item])).toBe(true);
+        expect(shallowEqual([1, {}], [1, {}])).toBe(false);
+        expect(shallowEqual(new Map([['a', item]]), new Map([['a', item]]))).toBe(true);
+        expect(shallowEqual(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+        expect(shallowEqual({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+        expect(shallowEqual([1], new Set([1]))).toBe(false);
+    });
+});
@@ -0,0 +1,106 @@
+import { Model, watch } from '../Model';
+import { copyInto, prop } from '../Persistence';
+import { reaction } from '../Reactions';
+import { addErrorHandler, addErrorSink, configureErrorHandling, ModelErrorHandler } from '../Errors';
+import { flushModelUpdates } from '../testing';
+
+class SettingsModel extends Model {
+    @prop()
+    @watch
+    public theme: string = 'light';
+
+    @prop()
+    public layout: object = {};
+
+    @reaction('theme')
+    public applyTheme() {
+        throw new Error('Unknown theme');
+    }
+
+    public reportError(error: Error) {
+        this.handleError(error);
+    }
+}
+
+describe('error handling', () => {
+    let handler: jest.Mock<void, Parameters<ModelErrorHandler>>;
+    let removeHandler: () => void;
+
+    beforeEach(() => {
+        handler = jest.fn();
+        removeHandler = addErrorHandler(handler);
+    });
+
+    afterEach(() => {
+        removeHandler();
+        configureErrorHandling({ rethrowToBoundary: false });
+        jest.restoreAllMocks();
+    });
+
+    it('passes listener errors to the handlers', async () => {
+        const settings = new SettingsModel();
+        const error = new Error('listener failed');
+        settings.addListener(() => {
+            throw error;
+        });
+
+        settings.notifyListeners();
+        await flushModelUpdates();
+
+        expect(handler).toHaveBeenCalledWith(error, { model: settings, phase: 'listener' });
+    });
+
+    it('passes reaction errors to the handlers', async () => {
+        const settings = new SettingsModel();
+        settings.theme = 'dark';
+        await flushModelUpdates();
+
+        expect(handler).toHaveBeenCalledWith(new Error('Unknown theme'), { model: settings, phase: 'reaction' });
+    });
+
+    it('passes deserialization errors to the handlers', () => {
+        const settings = new SettingsModel();
+        copyInto(settings, { layout: { columns: 2 } });
+
+        expect(handler).toHaveBeenCalledWith(new Error(`Constructor is required for @prop('layout')`), { model: settings, phase: 'deserialization' });
+    });
+
+    it('passes errors reported by the model itself to the handlers', () => {
+        const settings = new SettingsModel();
+        const error = new Error('sync failed');
+        settings.reportError(error);
+
+        expect(handler).toHaveBeenCalledWith(error, { model: settings, phase: 'model' });
+    });
+
+    it('logs errors when there are no handlers', async () => {
+        removeHandler();
+        const log = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        const settings = new SettingsModel();
+        settings.theme = 'dark';
+        await flushModelUpdates();
+
+        expect(log).toHaveBeenCalledWith(new Error('Unknown theme'));
+    });
+
+    it('rethrows errors of the configured phases in the components watching the model', async () => {
+        configureErrorHandling({ rethrowToBoundary: ['listener'] });
+        const settings = new SettingsModel();
+        const sink = jest.fn();
+        addErrorSink(settings, sink);
+
+        settings.theme = 'dark';
+        await flushModelUpdates();
+        expect(sink).not.toHaveBeenCalled();
+
+        const error = new Error('listener failed');
+        settings.addListener(() => {
+            throw error;
+        });
+        settings.notifyListeners();
+        await flushModelUpdates();
+
+        expect(sink).toHaveBeenCalledWith(error);
+    });
+});
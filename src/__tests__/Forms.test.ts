@@ -0,0 +1,124 @@
+import { createElement } from 'react';
+import TestRenderer, { act } from 'react-test-renderer';
+import { FieldBinding, resetFields, useField } from '../Forms';
+import { defineModel, Model, watch } from '../Model';
+import { required } from '../Validation';
+import { flushModelUpdates } from '../testing';
+import { update } from './helpers';
+
+class SignupModel extends Model {
+    @watch
+    @required('Enter a name')
+    public name: string = '';
+
+    @watch
+    public subscribed: boolean = false;
+}
+
+const [SignupProvider, useSignup] = defineModel(SignupModel);
+
+type Rendered<T> = { readonly current: FieldBinding<T>, readonly renders: number, readonly proxy: SignupModel };
+
+function renderField<K extends 'name' | 'subscribed'>(model: SignupModel, propName: K): Rendered<SignupModel[K]> {
+    const bindings: FieldBinding<SignupModel[K]>[] = [];
+    let proxy: SignupModel;
+    const Field = (): any => {
+        proxy = useSignup();
+        bindings.push(useField(proxy, propName));
+        return null;
+    };
+
+    act(() => {
+        TestRenderer.create(createElement(SignupProvider, { value: model }, createElement(Field)));
+    });
+
+    return {
+        get current() {
+            return bindings[bindings.length - 1];
+        },
+
+        get renders() {
+            return bindings.length;
+        },
+
+        get proxy() {
+            return proxy;
+        },
+    };
+}
+
+describe('#useField', () => {
+    it('sets the field from web change events', async () => {
+        const signup = new SignupModel();
+        const name = renderField(signup, 'name');
+
+        await update(() => name.current.onChange({ target: { type: 'text', value: 'bob' } }));
+        expect(signup.name).toBe('bob');
+        expect(name.current.value).toBe('bob');
+    });
+
+    it('uses the checked state of checkboxes', async () => {
+        const signup = new SignupModel();
+        const subscribed = renderField(signup, 'subscribed');
+
+        await update(() => subscribed.current.onChange({ target: { type: 'checkbox', value: 'on', checked: true } }));
+        expect(signup.subscribed).toBe(true);
+        expect(subscribed.current.value).toBe(true);
+    });
+
+    it('sets the field from React Native change events', async () => {
+        const signup = new SignupModel();
+        const name = renderField(signup, 'name');
+
+        await update(() => name.current.onChangeText('ann'));
+        expect(signup.name).toBe('ann');
+
+        await update(() => name.current.onChange({ nativeEvent: { text: 'kim' } }));
+        expect(signup.name).toBe('kim');
+        expect(name.current.value).toBe('kim');
+    });
+
+    it('tracks the touched, dirty and error state', async () => {
+        const signup = new SignupModel();
+        const name = renderField(signup, 'name');
+        expect(name.current).toMatchObject({ touched: false, dirty: false, error: 'Enter a name' });
+
+        await update(() => name.current.onBlur());
+        expect(name.current).toMatchObject({ touched: true, dirty: false, error: 'Enter a name' });
+
+        await update(() => name.current.onChange('bob'));
+        expect(name.current).toMatchObject({ touched: true, dirty: true, error: undefined });
+
+        await update(() => name.current.onChange(''));
+        expect(name.current).toMatchObject({ touched: true, dirty: false, error: 'Enter a name' });
+    });
+
+    it('does not re-render when other fields change', async () => {
+        const signup = new SignupModel();
+        await flushModelUpdates();
+
+        const name = renderField(signup, 'name');
+        await update(() => signup.subscribed = true);
+        expect(name.renders).toBe(1);
+    });
+});
+
+describe('#resetFields', () => {
+    it('makes the current values initial and marks the fields as untouched', async () => {
+        const signup = new SignupModel();
+        const name = renderField(signup, 'name');
+
+        await update(() => {
+            name.current.onChange('bob');
+            name.current.onBlur();
+        });
+
+        expect(name.current).toMatchObject({ touched: true, dirty: true });
+
+        await update(() => resetFields(name.proxy));
+        expect(name.current).toMatchObject({ value: 'bob', touched: false, dirty: false });
+
+        await update(() => name.current.onChange('ann'));
+        expect(name.current.dirty).toBe(true);
+    });
+});
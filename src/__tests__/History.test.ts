@@ -0,0 +1,118 @@
+import { createElement } from 'react';
+import TestRenderer, { act } from 'react-test-renderer';
+import { History } from '../History';
+import { defineModel, Model, watch } from '../Model';
+
+class ShapeModel extends Model {
+    @watch
+    public color: string = 'red';
+
+    @watch
+    public size: number = 1;
+}
+
+const [ShapeProvider, useShape] = defineModel(ShapeModel);
+
+describe('History', () => {
+    it('undoes and redoes changes', () => {
+        const shape = new ShapeModel();
+        const history = new History(shape);
+
+        shape.color = 'blue';
+        shape.size = 2;
+        expect(history.canUndo).toBe(true);
+
+        expect(history.undo()).toBe(true);
+        expect(shape.size).toBe(1);
+        expect(shape.color).toBe('blue');
+
+        expect(history.undo()).toBe(true);
+        expect(shape.color).toBe('red');
+        expect(history.undo()).toBe(false);
+        expect(history.canRedo).toBe(true);
+
+        expect(history.redo()).toBe(true);
+        expect(shape.color).toBe('blue');
+    });
+
+    it('keeps instance identity', () => {
+        class ListModel extends Model {
+            @watch
+            public items: ShapeModel[] = [];
+        }
+
+        const list = new ListModel();
+        const original = list.items;
+        const history = new History(list);
+
+        list.items = [new ShapeModel()];
+        history.undo();
+        expect(list.items).toBe(original);
+    });
+
+    it('groups changes into named entries', () => {
+        const shape = new ShapeModel();
+        const history = new History(shape);
+
+        history.group('Resize', () => {
+            shape.size = 2;
+            shape.size = 3;
+        });
+
+        expect(history.undoName).toBe('Resize');
+        history.undo();
+        expect(shape.size).toBe(1);
+        expect(history.canUndo).toBe(false);
+        expect(history.redoName).toBe('Resize');
+    });
+
+    it('discards the redo entries when a new change is made', () => {
+        const shape = new ShapeModel();
+        const history = new History(shape);
+
+        shape.size = 2;
+        history.undo();
+        shape.color = 'green';
+        expect(history.canRedo).toBe(false);
+    });
+
+    it('limits the number of entries', () => {
+        const shape = new ShapeModel();
+        const history = new History(shape, { limit: 2 });
+
+        shape.size = 2;
+        shape.size = 3;
+        shape.size = 4;
+        while (history.undo()) {}
+        expect(shape.size).toBe(2);
+    });
+
+    it('stops recording detached models', () => {
+        const shape = new ShapeModel();
+        const history = new History(shape);
+
+        history.detach(shape);
+        shape.size = 2;
+        expect(history.canUndo).toBe(false);
+    });
+
+    it('records changes made through useModel', () => {
+        const shape = new ShapeModel();
+        let proxy: ShapeModel;
+        const ShapeView = (): any => {
+            proxy = useShape();
+            return proxy.color;
+        };
+
+        act(() => {
+            TestRenderer.create(createElement(ShapeProvider, { value: shape }, createElement(ShapeView)));
+        });
+
+        const history = new History(proxy!);
+        proxy!.color = 'blue';
+        expect(history.canUndo).toBe(true);
+
+        history.undo();
+        expect(shape.color).toBe('red');
+    });
+});
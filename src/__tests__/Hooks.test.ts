@@ -0,0 +1,305 @@
+import { createElement, ReactElement } from 'react';
+import TestRenderer, { act, ReactTestRenderer } from 'react-test-renderer';
+import { asyncAction } from '../Actions';
+import { defineModel, Model, unwrapModel, watch } from '../Model';
+import { getErrors, isValid, required } from '../Validation';
+import { flushModelUpdates } from '../testing';
+import { update } from './helpers';
+
+class CounterModel extends Model {
+    @watch
+    public count: number = 0;
+
+    @watch
+    public label: string = 'Count';
+}
+
+class SignupModel extends Model {
+    @watch
+    @required('Enter a name')
+    public name: string = '';
+
+    public reset() {
+        this.name = '';
+    }
+}
+
+class ProfileModel extends Model {
+    public requests: ((name: string) => void)[] = [];
+
+    @watch
+    public name: string = '';
+
+    @asyncAction()
+    public async load() {
+        this.name = await new Promise<string>(resolve => this.requests.push(resolve));
+    }
+}
+
+const [CounterProvider, useCounter, watchCounter, , useCounterSelector, CounterScope] = defineModel(CounterModel);
+const [SignupProvider, useSignup] = defineModel(SignupModel);
+const [ProfileProvider, useProfile] = defineModel(ProfileModel);
+
+function mount(element: ReactElement): ReactTestRenderer {
+    let renderer: ReactTestRenderer;
+    act(() => {
+        renderer = TestRenderer.create(element);
+    });
+
+    return renderer!;
+}
+
+function render(model: CounterModel, component: () => any): ReactTestRenderer {
+    return mount(createElement(CounterProvider, { value: model }, createElement(component)));
+}
+
+describe('hooks', () => {
+    describe('useModel', () => {
+        it('re-renders when a prop read while rendering changes', async () => {
+            const counter = new CounterModel();
+            let renders = 0;
+            const renderer = render(counter, () => {
+                renders++;
+                return useCounter().count;
+            });
+
+            await update(() => counter.count = 1);
+            expect(renderer.toJSON()).toBe('1');
+            expect(renders).toBe(2);
+        });
+
+        it('does not re-render when other props change', async () => {
+            const counter = new CounterModel();
+            await flushModelUpdates();
+
+            let renders = 0;
+            render(counter, () => {
+                renders++;
+                return useCounter().count;
+            });
+
+            await update(() => counter.label = 'Total');
+            expect(renders).toBe(1);
+        });
+
+        it('does not re-render without tracking changes', async () => {
+            const counter = new CounterModel();
+            let renders = 0;
+            const renderer = render(counter, () => {
+                renders++;
+                return useCounter(false).count;
+            });
+
+            await update(() => counter.count = 1);
+            expect(renderer.toJSON()).toBe('0');
+            expect(renders).toBe(1);
+        });
+
+        it('catches changes made before subscribing', async () => {
+            const counter = new CounterModel();
+            const renderer = render(counter, () => {
+                const model = useCounter();
+                if (model.count === 0) {
+                    counter.count = 1;
+                }
+
+                return model.count;
+            });
+
+            await update(() => {});
+            expect(renderer.toJSON()).toBe('1');
+        });
+
+        it('applies changes made through the returned model to the model itself', async () => {
+            const signup = new SignupModel();
+            expect(isValid(signup)).toBe(false);
+
+            let proxy: SignupModel;
+            const Form = (): any => {
+                proxy = useSignup();
+                return isValid(proxy) ? 'valid' : getErrors(proxy).get('name');
+            };
+
+            const renderer = mount(createElement(SignupProvider, { value: signup }, createElement(Form)));
+
+            await update(() => proxy.name = 'bob');
+            expect(signup.name).toBe('bob');
+            expect(isValid(signup)).toBe(true);
+            expect(renderer.toJSON()).toBe('valid');
+
+            await update(() => proxy.reset());
+            expect(getErrors(signup).get('name')).toBe('Enter a name');
+            expect(renderer.toJSON()).toBe('Enter a name');
+        });
+
+        it('shares the state of async actions called through the returned model', async () => {
+            const profile = new ProfileModel();
+            let proxy: ProfileModel;
+            const Loader = (): any => {
+                proxy = useProfile();
+                return null;
+            };
+
+            const Status = (): any => useProfile().isPending('load') ? 'loading' : 'idle';
+
+            const renderer = mount(createElement(ProfileProvider, { value: profile }, createElement(Loader), createElement(Status)));
+
+            let loading: Promise<void>;
+            await update(() => {
+                loading = proxy.load();
+            });
+
+            expect(profile.isPending('load')).toBe(true);
+            expect(renderer.toJSON()).toBe('loading');
+
+            await update(() => {
+                profile.requests[0]('Ada');
+                return loading;
+            });
+            expect(profile.isPending('load')).toBe(false);
+            expect(renderer.toJSON()).toBe('idle');
+        });
+
+        it('unsubscribes when unmounted', () => {
+            const counter = new CounterModel();
+            const renderer = render(counter, () => useCounter().count);
+            expect(counter.hasListeners).toBe(true);
+
+            act(() => renderer.unmount());
+            expect(counter.hasListeners).toBe(false);
+        });
+    });
+
+    describe('watchModel', () => {
+        it('tracks each model separately', async () => {
+            const first = new CounterModel();
+            const second = new CounterModel();
+            await flushModelUpdates();
+
+            let renders = 0;
+            render(first, () => {
+                renders++;
+                const [a, b] = watchCounter(first, second);
+                return `${a.count} ${b.label}`;
+            });
+
+            await update(() => second.count = 1);
+            expect(renders).toBe(1);
+
+            await update(() => second.label = 'Total');
+            expect(renders).toBe(2);
+        });
+    });
+
+    describe('useModelSelector', () => {
+        it('re-renders when the selected value changes', async () => {
+            const counter = new CounterModel();
+            let renders = 0;
+            const renderer = render(counter, () => {
+                renders++;
+                return useCounterSelector(model => model.count * 2);
+            });
+
+            await update(() => counter.count = 2);
+            expect(renderer.toJSON()).toBe('4');
+            expect(renders).toBe(2);
+        });
+
+        it('does not re-render when the selected value is equal', async () => {
+            const counter = new CounterModel();
+            let renders = 0;
+            const renderer = render(counter, () => {
+                renders++;
+                return useCounterSelector(model => model.count > 1 ? 'many' : 'few');
+            });
+
+            await update(() => counter.count = 1);
+            await update(() => counter.label = 'Total');
+            expect(renderer.toJSON()).toBe('few');
+            expect(renders).toBe(1);
+
+            await update(() => counter.count = 2);
+            expect(renderer.toJSON()).toBe('many');
+            expect(renders).toBe(2);
+        });
+
+        it('compares selected values with the equality function', async () => {
+            const counter = new CounterModel();
+            const selections: { even: boolean }[] = [];
+            render(counter, () => {
+                const selection = useCounterSelector(model => ({ even: model.count % 2 === 0 }), (a, b) => a.even === b.even);
+                selections.push(selection);
+                return null;
+            });
+
+            await update(() => counter.count = 2);
+            expect(selections).toHaveLength(1);
+
+            await update(() => counter.count = 3);
+            expect(selections).toHaveLength(2);
+            expect(selections[1]).toStrictEqual({ even: false });
+        });
+    });
+
+    describe('ModelScope', () => {
+        const scoped: CounterModel[] = [];
+        const Scoped = (): any => {
+            const counter = useCounter();
+            scoped.push(unwrapModel(counter));
+            return counter.count;
+        };
+
+        beforeEach(() => {
+            scoped.length = 0;
+        });
+
+        it('creates the model once and disposes it after unmounting', async () => {
+            const create = jest.fn(() => new CounterModel());
+            const renderer = mount(createElement(CounterScope, { create }, createElement(Scoped)));
+            await update(() => scoped[0].count = 1);
+
+            expect(create).toHaveBeenCalledTimes(1);
+            expect(scoped).toHaveLength(2);
+            expect(scoped[1]).toBe(scoped[0]);
+
+            act(() => renderer.unmount());
+            expect(scoped[0].isDisposed).toBe(false);
+
+            await Promise.resolve();
+            expect(scoped[0].isDisposed).toBe(true);
+        });
+
+        it('re-creates the model when the deps change', async () => {
+            const create = (start: number) => () => {
+                const counter = new CounterModel();
+                counter.count = start;
+                return counter;
+            };
+
+            const renderer = mount(createElement(CounterScope, { create: create(1), deps: [1] }, createElement(Scoped)));
+            act(() => renderer.update(createElement(CounterScope, { create: create(1), deps: [1] }, createElement(Scoped))));
+            expect(scoped[1]).toBe(scoped[0]);
+
+            act(() => renderer.update(createElement(CounterScope, { create: create(2), deps: [2] }, createElement(Scoped))));
+            expect(scoped[2]).not.toBe(scoped[0]);
+            expect(renderer.toJSON()).toBe('2');
+
+            await Promise.resolve();
+            expect(scoped[0].isDisposed).toBe(true);
+            expect(scoped[2].isDisposed).toBe(false);
+        });
+
+        it('provides the given model without disposing it', async () => {
+            const counter = new CounterModel();
+            const create = jest.fn(() => new CounterModel());
+            const renderer = mount(createElement(CounterScope, { create, value: counter }, createElement(Scoped)));
+
+            expect(scoped[0]).toBe(counter);
+            expect(create).not.toHaveBeenCalled();
+
+            act(() => renderer.unmount());
+            await Promise.resolve();
+            expect(counter.isDisposed).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,148 @@
+import { createElement } from 'react';
+import TestRenderer, { act, ReactTestRenderer } from 'react-test-renderer';
+import { createWithDependencies, findModelContext, inject } from '../Injection';
+import { defineGlobalModel, defineModel, Model, unwrapModel, watch } from '../Model';
+import { update } from './helpers';
+
+class SessionModel extends Model {
+    @watch
+    public userId: number = 1;
+}
+
+class AdminSessionModel extends SessionModel {
+}
+
+class CartModel extends Model {
+    public readonly session = inject(SessionModel);
+}
+
+class FeatureFlagsModel extends Model {
+    @watch
+    public darkMode: boolean = false;
+}
+
+class SettingsModel extends Model {
+    public readonly flags = inject(FeatureFlagsModel);
+}
+
+const [, , , SessionContext] = defineModel(SessionModel);
+const useFeatureFlags = defineGlobalModel(FeatureFlagsModel);
+
+describe('#inject', () => {
+    it('resolves dependencies from the provided models', () => {
+        const session = new SessionModel();
+        const cart = createWithDependencies([session], () => new CartModel());
+        expect(cart.session).toBe(session);
+    });
+
+    it('resolves derived model types', () => {
+        const session = new AdminSessionModel();
+        const cart = createWithDependencies([session], () => new CartModel());
+        expect(cart.session).toBe(session);
+    });
+
+    it('throws when the dependency is not provided', () => {
+        expect(() => createWithDependencies([], () => new CartModel())).toThrow('inject: No provider found for model SessionModel');
+    });
+
+    it('throws when called outside of model creation', () => {
+        expect(() => new CartModel()).toThrow(/can only be injected/);
+    });
+});
+
+describe('#findModelContext', () => {
+    it('finds the context defined for the model type', () => {
+        expect(findModelContext(new SessionModel())).toBe(SessionContext);
+        expect(findModelContext(new AdminSessionModel())).toBe(SessionContext);
+        expect(findModelContext(createWithDependencies([new SessionModel()], () => new CartModel()))).toBeUndefined();
+    });
+});
+
+describe('#defineGlobalModel', () => {
+    afterEach(() => {
+        useFeatureFlags.reset();
+    });
+
+    it('creates the global instance once', () => {
+        const flags = useFeatureFlags.get();
+        expect(flags).toBeInstanceOf(FeatureFlagsModel);
+        expect(useFeatureFlags.get()).toBe(flags);
+    });
+
+    it('disposes the global instance when reset', () => {
+        const flags = useFeatureFlags.get();
+        useFeatureFlags.reset();
+
+        expect(flags.isDisposed).toBe(true);
+        expect(useFeatureFlags.get()).not.toBe(flags);
+    });
+
+    it('is injected when it is not provided', () => {
+        const settings = createWithDependencies([], () => new SettingsModel());
+        expect(settings.flags).toBe(useFeatureFlags.get());
+    });
+
+    it('can be overridden by a provided model', () => {
+        const flags = new FeatureFlagsModel();
+        const settings = createWithDependencies([flags], () => new SettingsModel());
+
+        expect(settings.flags).toBe(flags);
+        expect(findModelContext(flags)).toBe(useFeatureFlags.context);
+    });
+
+    describe('hook', () => {
+        const used: FeatureFlagsModel[] = [];
+        const Flags = (): any => {
+            const flags = useFeatureFlags();
+            used.push(unwrapModel(flags));
+            return flags.darkMode ? 'dark' : 'light';
+        };
+
+        let renderer: ReactTestRenderer;
+
+        beforeEach(() => {
+            used.length = 0;
+        });
+
+        afterEach(() => {
+            act(() => renderer.unmount());
+        });
+
+        it('uses the global instance without a provider', async () => {
+            act(() => {
+                renderer = TestRenderer.create(createElement(Flags));
+            });
+
+            expect(used[0]).toBe(useFeatureFlags.get());
+
+            await update(() => useFeatureFlags.get().darkMode = true);
+
+            expect(renderer.toJSON()).toBe('dark');
+        });
+
+        it('uses the model given to its Provider', () => {
+            const flags = new FeatureFlagsModel();
+            flags.darkMode = true;
+            act(() => {
+                renderer = TestRenderer.create(createElement(useFeatureFlags.Provider, { value: flags }, createElement(Flags)));
+            });
+
+            expect(used).toStrictEqual([flags]);
+            expect(renderer.toJSON()).toBe('dark');
+        });
+
+        it('switches to the new global instance when reset', () => {
+            act(() => {
+                renderer = TestRenderer.create(createElement(Flags));
+            });
+
+            const previous = used[0];
+            act(() => useFeatureFlags.reset());
+
+            expect(previous.isDisposed).toBe(true);
+            expect(used[used.length - 1]).not.toBe(previous);
+            expect(used[used.length - 1]).toBe(useFeatureFlags.get());
+            expect(used[used.length - 1].isDisposed).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,100 @@
+import { Inspector, LocalDevTools } from '../Inspector';
+import { Model, watch } from '../Model';
+import { prop } from '../Persistence';
+import { flushModelUpdates } from '../testing';
+
+class SettingsModel extends Model {
+    @prop() @watch
+    public theme: string = 'light';
+
+    @prop() @watch
+    public fontSize: number = 12;
+}
+
+describe('Inspector', () => {
+    let inspector: Inspector;
+
+    afterEach(() => {
+        inspector?.dispose();
+    });
+
+    it('records notifications with the changed values', async () => {
+        const settings = new SettingsModel();
+        await flushModelUpdates();
+        inspector = new Inspector();
+
+        settings.theme = 'dark';
+        settings.theme = 'contrast';
+        settings.fontSize = 14;
+        await flushModelUpdates();
+
+        expect(inspector.log).toHaveLength(1);
+        const [record] = inspector.log;
+        expect(record.model).toBe(settings);
+        expect(record.name).toBe('SettingsModel');
+        expect(record.props).toStrictEqual(['theme', 'fontSize']);
+        expect(record.changes).toStrictEqual([
+            { prop: 'theme', previousValue: 'light', newValue: 'contrast' },
+            { prop: 'fontSize', previousValue: 12, newValue: 14 },
+        ]);
+    });
+
+    it('limits the number of records', async () => {
+        const settings = new SettingsModel();
+        inspector = new Inspector({ limit: 2 });
+
+        for (let i = 0; i < 3; i++) {
+            settings.fontSize = i;
+            await flushModelUpdates();
+        }
+
+        expect(inspector.log.map(r => r.changes[0].newValue)).toStrictEqual([1, 2]);
+    });
+
+    it('stops recording when disposed', async () => {
+        const settings = new SettingsModel();
+        inspector = new Inspector();
+        inspector.dispose();
+
+        settings.fontSize = 14;
+        await flushModelUpdates();
+        expect(inspector.log).toHaveLength(0);
+    });
+
+    it('streams records to the devtools', async () => {
+        const devTools = new LocalDevTools();
+        const settings = new SettingsModel();
+        await flushModelUpdates();
+        inspector = new Inspector({ devTools });
+        inspector.track(settings, 'settings');
+
+        settings.theme = 'dark';
+        await flushModelUpdates();
+
+        expect(devTools.actions).toHaveLength(1);
+        expect(devTools.actions[0].type).toBe('SettingsModel.theme');
+        expect(devTools.state).toStrictEqual({ settings: { theme: 'dark', fontSize: 12 } });
+    });
+
+    it('applies state dispatched from the devtools', async () => {
+        const devTools = new LocalDevTools();
+        const settings = new SettingsModel();
+        await flushModelUpdates();
+        inspector = new Inspector({ devTools });
+        inspector.track(settings, 'settings');
+
+        devTools.jumpToState({ settings: { theme: 'dark', fontSize: 20 } });
+        expect(settings.theme).toBe('dark');
+        expect(settings.fontSize).toBe(20);
+
+        await flushModelUpdates();
+        expect(inspector.log).toHaveLength(1);
+        expect(devTools.actions).toHaveLength(0);
+    });
+
+    it('throws when tracking models without persistence', () => {
+        class PlainModel extends Model {}
+        inspector = new Inspector();
+        expect(() => inspector.track(new PlainModel())).toThrow(/persistence/);
+    });
+});
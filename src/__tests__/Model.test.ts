@@ -0,0 +1,280 @@
+import { computed, Model, watch } from '../Model';
+import { deepEqual, shallowEqual } from '../Equality';
+import { flushModelUpdates } from '../testing';
+
+class PersonModel extends Model {
+    public evaluations = 0;
+
+    @watch
+    public firstName: string = 'Ada';
+
+    @watch
+    public lastName: string = 'Lovelace';
+
+    @watch
+    public age: number = 36;
+
+    @computed
+    public get fullName() {
+        this.evaluations++;
+        return `${this.firstName} ${this.lastName}`;
+    }
+
+    @computed
+    public get greeting() {
+        return `Hello, ${this.fullName}`;
+    }
+}
+
+class CartModel extends Model {
+    @watch
+    public items: number[] = [];
+
+    @computed
+    public get total() {
+        return this.items.reduce((sum, item) => sum + item, 0);
+    }
+}
+
+class CheckoutModel extends Model {
+    public readonly cart: CartModel;
+
+    constructor(cart: CartModel) {
+        super();
+        this.cart = cart;
+    }
+
+    @computed
+    public get itemCount() {
+        return this.cart.items.length;
+    }
+
+    @computed
+    public get summary() {
+        return `${this.itemCount} items, ${this.cart.total} total`;
+    }
+}
+
+class ConnectionModel extends Model {
+    public activations = 0;
+    public deactivations = 0;
+
+    @watch
+    public status: string = 'idle';
+
+    protected onActivate() {
+        this.activations++;
+    }
+
+    protected onDeactivate() {
+        this.deactivations++;
+    }
+}
+
+class Address extends Model {
+    @watch
+    public city: string = '';
+}
+
+class CustomerModel extends Model {
+    @watch({ equals: deepEqual })
+    public tags: string[] = [];
+
+    @watch({ equals: shallowEqual, notifyAs: ['summary'] })
+    public joined: Date = new Date(0);
+
+    @watch({ deep: true })
+    public address: Address = new Address();
+}
+
+describe('Model', () => {
+    describe('lifecycle', () => {
+        it('activates when the first listener is added', () => {
+            const connection = new ConnectionModel();
+            connection.addListener(() => {});
+            connection.addListener(() => {});
+            expect(connection.activations).toBe(1);
+        });
+
+        it('deactivates after the last listener is removed', async () => {
+            const connection = new ConnectionModel();
+            const listener = () => {};
+            connection.addListener(listener);
+            connection.removeListener(listener);
+            expect(connection.deactivations).toBe(0);
+
+            await Promise.resolve();
+            expect(connection.deactivations).toBe(1);
+        });
+
+        it('does not restart when a listener is removed and added again immediately', async () => {
+            const connection = new ConnectionModel();
+            const listener = () => {};
+            connection.addListener(listener);
+            connection.removeListener(listener);
+            connection.addListener(listener);
+
+            await flushModelUpdates();
+            expect(connection.activations).toBe(1);
+            expect(connection.deactivations).toBe(0);
+        });
+
+        it('drops pending notifications when disposed', async () => {
+            const connection = new ConnectionModel();
+            const listener = jest.fn();
+            connection.addListener(listener);
+
+            connection.status = 'connected';
+            connection.dispose();
+            expect(connection.isDisposed).toBe(true);
+            expect(connection.hasListeners).toBe(false);
+            expect(connection.deactivations).toBe(1);
+
+            await flushModelUpdates();
+            expect(listener).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('@computed', () => {
+        it('caches the value until a dependency changes', () => {
+            const person = new PersonModel();
+            expect(person.fullName).toBe('Ada Lovelace');
+            expect(person.fullName).toBe('Ada Lovelace');
+            expect(person.evaluations).toBe(1);
+
+            person.age = 37;
+            expect(person.fullName).toBe('Ada Lovelace');
+            expect(person.evaluations).toBe(1);
+
+            person.lastName = 'King';
+            expect(person.fullName).toBe('Ada King');
+            expect(person.evaluations).toBe(2);
+        });
+
+        it('notifies listeners of the computed name when a dependency changes', async () => {
+            const person = new PersonModel();
+            const listener = jest.fn();
+            person.addListener(listener, new Set(['fullName']));
+            person.fullName;
+
+            person.age = 37;
+            await flushModelUpdates();
+            expect(listener).not.toHaveBeenCalled();
+
+            person.firstName = 'Augusta';
+            await flushModelUpdates();
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+
+        it('propagates changes through nested computed getters', async () => {
+            const person = new PersonModel();
+            const listener = jest.fn();
+            person.addListener(listener, new Set(['greeting']));
+            expect(person.greeting).toBe('Hello, Ada Lovelace');
+
+            person.firstName = 'Augusta';
+            await flushModelUpdates();
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(person.greeting).toBe('Hello, Augusta Lovelace');
+        });
+
+        it('re-evaluates when fields of other models change', () => {
+            const cart = new CartModel();
+            const checkout = new CheckoutModel(cart);
+            expect(checkout.itemCount).toBe(0);
+
+            cart.items = [1, 2];
+            expect(checkout.itemCount).toBe(2);
+            expect(checkout.summary).toBe('2 items, 3 total');
+
+            cart.items.push(3);
+            expect(checkout.summary).toBe('3 items, 6 total');
+        });
+
+        it('notifies listeners when fields of other models change', async () => {
+            const cart = new CartModel();
+            const checkout = new CheckoutModel(cart);
+            const listener = jest.fn();
+            checkout.addListener(listener, new Set(['summary']));
+            checkout.summary;
+
+            cart.items = [5];
+            await flushModelUpdates();
+            expect(listener).toHaveBeenCalledWith(expect.any(Number), new Set(['itemCount', 'summary']));
+        });
+
+        it('stops depending on other models when disposed', () => {
+            const cart = new CartModel();
+            const checkout = new CheckoutModel(cart);
+            checkout.itemCount;
+
+            checkout.dispose();
+            const notify = jest.spyOn(checkout, 'notifyListeners');
+            cart.items = [1];
+            expect(notify).not.toHaveBeenCalled();
+        });
+
+        it('re-evaluates after every notification', () => {
+            const person = new PersonModel();
+            person.fullName;
+            person.notifyListeners();
+            person.fullName;
+            expect(person.evaluations).toBe(2);
+        });
+    });
+
+    describe('@watch options', () => {
+        it('keeps the current value when an equal value is assigned', async () => {
+            const customer = new CustomerModel();
+            customer.tags = ['a', 'b'];
+            await flushModelUpdates();
+
+            const tags = customer.tags;
+            const listener = jest.fn();
+            customer.addListener(listener);
+
+            customer.tags = ['a', 'b'];
+            customer.joined = new Date(0);
+            await flushModelUpdates();
+
+            expect(customer.tags).toBe(tags);
+            expect(listener).not.toHaveBeenCalled();
+
+            customer.tags = ['a'];
+            await flushModelUpdates();
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+
+        it('notifies listeners under the extra names', async () => {
+            const customer = new CustomerModel();
+            await flushModelUpdates();
+
+            const listener = jest.fn();
+            customer.addListener(listener, new Set(['summary']));
+
+            customer.joined = new Date(1000);
+            await flushModelUpdates();
+
+            expect(listener).toHaveBeenCalledWith(expect.any(Number), new Set(['joined', 'summary']));
+        });
+
+        it('notifies listeners when a nested model changes', async () => {
+            const customer = new CustomerModel();
+            const previous = customer.address;
+            await flushModelUpdates();
+
+            const listener = jest.fn();
+            customer.addListener(listener, new Set(['address']));
+
+            customer.address.city = 'Bristol';
+            await flushModelUpdates();
+            expect(listener).toHaveBeenCalledTimes(1);
+
+            customer.address = new Address();
+            await flushModelUpdates();
+            previous.city = 'London';
+            await flushModelUpdates();
+            expect(listener).toHaveBeenCalledTimes(2);
+        });
+    });
+});
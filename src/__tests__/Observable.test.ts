@@ -0,0 +1,172 @@
+import { Model, watch } from '../Model';
+import { batch } from '../Batch';
+import { observeChanges } from '../Changes';
+import { History } from '../History';
+import { flushModelUpdates } from '../testing';
+
+class CollectionsModel extends Model {
+    @watch
+    public items: number[] = [];
+
+    @watch
+    public lookup: Map<string, number> = new Map();
+
+    @watch
+    public tags: Set<string> = new Set();
+}
+
+async function createModel() {
+    const model = new CollectionsModel();
+    await flushModelUpdates();
+
+    const listener = jest.fn();
+    model.addListener(listener);
+    return { model, listener };
+}
+
+describe('observable collections', () => {
+    it('notifies when arrays are changed in place', async () => {
+        const { model, listener } = await createModel();
+
+        model.items.push(1);
+        await flushModelUpdates();
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect([...listener.mock.calls[0][1]]).toStrictEqual(['items']);
+
+        model.items[0] = 2;
+        await flushModelUpdates();
+        expect(listener).toHaveBeenCalledTimes(2);
+
+        model.items.splice(0, 1);
+        await flushModelUpdates();
+        expect(listener).toHaveBeenCalledTimes(3);
+        expect(model.items).toStrictEqual([]);
+    });
+
+    it('does not notify when array items are set to the same value', async () => {
+        const { model, listener } = await createModel();
+        model.items = [1];
+        await flushModelUpdates();
+
+        model.items[0] = 1;
+        await flushModelUpdates();
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('notifies when maps are changed in place', async () => {
+        const { model, listener } = await createModel();
+
+        expect(model.lookup.set('a', 1)).toBe(model.lookup);
+        await flushModelUpdates();
+        expect(listener).toHaveBeenCalledTimes(1);
+
+        model.lookup.set('a', 1);
+        await flushModelUpdates();
+        expect(listener).toHaveBeenCalledTimes(1);
+
+        model.lookup.delete('a');
+        await flushModelUpdates();
+        expect(listener).toHaveBeenCalledTimes(2);
+        expect(model.lookup.size).toBe(0);
+    });
+
+    it('notifies when sets are changed in place', async () => {
+        const { model, listener } = await createModel();
+
+        model.tags.add('a');
+        await flushModelUpdates();
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(model.tags.has('a')).toBe(true);
+
+        model.tags.clear();
+        await flushModelUpdates();
+        expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops notifying after the collection is replaced', async () => {
+        const { model, listener } = await createModel();
+        const previous = model.items;
+        model.items = [];
+        await flushModelUpdates();
+        listener.mockClear();
+
+        previous.push(1);
+        await flushModelUpdates();
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('treats the observable and original collection as the same value', async () => {
+        const { model, listener } = await createModel();
+        const original = [1, 2];
+        model.items = original;
+        const observable = model.items;
+        await flushModelUpdates();
+        listener.mockClear();
+
+        model.items = original;
+        model.items = observable;
+        await flushModelUpdates();
+        expect(listener).not.toHaveBeenCalled();
+        expect(model.items).toBe(observable);
+    });
+
+    it('notifies once when an array method changes several items', async () => {
+        const { model, listener } = await createModel();
+        model.items = [3, 1, 2];
+        await flushModelUpdates();
+        listener.mockClear();
+
+        expect(model.items.sort()).toBe(model.items);
+        model.items.push(4, 5);
+        await flushModelUpdates();
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(model.items).toStrictEqual([1, 2, 3, 4, 5]);
+
+        model.items.sort();
+        await flushModelUpdates();
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports in-place changes with copies of the contents', async () => {
+        const { model } = await createModel();
+        const changes: any[] = [];
+        observeChanges(model, (_, propertyKey, previousValue, newValue) => changes.push([propertyKey, previousValue, newValue]));
+
+        model.items.push(1);
+        model.tags.add('a');
+
+        expect(changes).toStrictEqual([['items', [], [1]], ['tags', new Set(), new Set(['a'])]]);
+    });
+
+    it('lets history undo and redo in-place changes', () => {
+        const model = new CollectionsModel();
+        const history = new History(model);
+
+        model.items.push(1);
+        model.lookup.set('a', 1);
+        expect(history.canUndo).toBe(true);
+
+        history.undo();
+        expect(model.lookup.size).toBe(0);
+        history.undo();
+        expect(model.items).toStrictEqual([]);
+
+        history.redo();
+        expect(model.items).toStrictEqual([1]);
+    });
+
+    it('rolls back in-place changes', () => {
+        const model = new CollectionsModel();
+        model.items = [1];
+
+        expect(() => batch(() => {
+            model.items.push(2);
+            model.items.reverse();
+            model.tags.add('a');
+            throw new Error('failed');
+        }, { rollbackOnError: true })).toThrow('failed');
+
+        expect(model.items).toStrictEqual([1]);
+        expect(model.tags.size).toBe(0);
+    });
+});
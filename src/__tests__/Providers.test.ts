@@ -0,0 +1,110 @@
+import { createContext, createElement, useContext } from 'react';
+import TestRenderer, { act, ReactTestRenderer } from 'react-test-renderer';
+import { inject } from '../Injection';
+import { defineModel, Model, watch } from '../Model';
+import { ModelProviders, ProvidedModel } from '../Providers';
+import { flushModelUpdates } from '../testing';
+import { update } from './helpers';
+
+class SessionModel extends Model {
+    @watch
+    public user: string = 'guest';
+}
+
+class CartModel extends Model {
+    public readonly session = inject(SessionModel);
+
+    @watch
+    public items: string[] = [];
+}
+
+class UnregisteredModel extends Model {
+}
+
+const [, useSession] = defineModel(SessionModel);
+const [, useCart] = defineModel(CartModel);
+
+const Session = (): any => useSession().user;
+const Cart = (): any => `${useCart().session.user}: ${useCart().items.length}`;
+
+describe('ModelProviders', () => {
+    let renderer: ReactTestRenderer | null = null;
+
+    function render(models: readonly ProvidedModel[], component: () => any) {
+        act(() => {
+            renderer = TestRenderer.create(createElement(ModelProviders, { models }, createElement(component)));
+        });
+
+        return renderer!;
+    }
+
+    afterEach(() => {
+        if (renderer) {
+            act(() => renderer!.unmount());
+            renderer = null;
+        }
+
+        jest.restoreAllMocks();
+    });
+
+    it('provides model instances through the context of their type', () => {
+        const session = new SessionModel();
+        session.user = 'Garry';
+
+        expect(render([session], Session).toJSON()).toBe('Garry');
+    });
+
+    it('provides models through the given context', () => {
+        const OtherContext = createContext<SessionModel | null>(null);
+        const session = new SessionModel();
+        session.user = 'Garry';
+        const Other = (): any => useContext(OtherContext)?.user ?? 'none';
+
+        expect(render([[OtherContext, session]], Other).toJSON()).toBe('Garry');
+        act(() => renderer!.unmount());
+
+        expect(render([{ model: () => new SessionModel(), context: OtherContext }], Other).toJSON()).toBe('guest');
+    });
+
+    it('creates models from functions, which can inject the models before them', async () => {
+        const session = new SessionModel();
+        session.user = 'Garry';
+        const created: CartModel[] = [];
+
+        const rendered = render([session, () => {
+            const cart = new CartModel();
+            created.push(cart);
+            return cart;
+        }], Cart);
+
+        expect(rendered.toJSON()).toBe('Garry: 0');
+        expect(created).toHaveLength(1);
+        expect(created[0].session).toBe(session);
+
+        await update(() => created[0].items.push('apple'));
+
+        expect(rendered.toJSON()).toBe('Garry: 1');
+        expect(created).toHaveLength(1);
+    });
+
+    it('throws for models without a context', () => {
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        expect(() => render([new UnregisteredModel()], () => null))
+            .toThrow('ModelProviders: No context found for model UnregisteredModel - pass [context, model] instead');
+        renderer = null;
+    });
+
+    it('disposes the models it created when it unmounts', async () => {
+        const session = new SessionModel();
+        let cart: CartModel | null = null;
+
+        const rendered = render([session, () => cart = new CartModel()], Cart);
+        act(() => rendered.unmount());
+        renderer = null;
+        await flushModelUpdates();
+
+        expect(cart!.isDisposed).toBe(true);
+        expect(session.isDisposed).toBe(false);
+    });
+});
@@ -0,0 +1,270 @@
+import { computed, Model, watch } from '../Model';
+import { autorun, reaction, subscribe } from '../Reactions';
+import { batch } from '../Batch';
+import { flushModelUpdates } from '../testing';
+
+class TodoModel extends Model {
+    @watch
+    public title: string = '';
+
+    @watch
+    public done: boolean = false;
+
+    @computed
+    public get label() {
+        return this.done ? `${this.title} (done)` : this.title;
+    }
+}
+
+async function createTodo(title: string) {
+    const todo = new TodoModel();
+    todo.title = title;
+    await flushModelUpdates();
+    return todo;
+}
+
+describe('#subscribe', () => {
+    it('delivers the changed props', async () => {
+        const todo = await createTodo('Write tests');
+        const callback = jest.fn();
+        subscribe(todo, ['title'], callback);
+
+        todo.done = true;
+        await flushModelUpdates();
+        expect(callback).not.toHaveBeenCalled();
+
+        todo.title = 'Write more tests';
+        await flushModelUpdates();
+        expect(callback).toHaveBeenCalledTimes(1);
+        expect(callback.mock.calls[0][0].model).toBe(todo);
+        expect([...callback.mock.calls[0][0].props]).toStrictEqual(['title']);
+    });
+
+    it('allows the same callback to be subscribed with different props', async () => {
+        const todo = await createTodo('Write tests');
+        const callback = jest.fn();
+        const unsubscribeTitle = subscribe(todo, ['title'], callback);
+        subscribe(todo, ['done'], callback);
+
+        unsubscribeTitle();
+        todo.title = 'Write more tests';
+        todo.done = true;
+        await flushModelUpdates();
+        expect(callback).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('#autorun', () => {
+    it('runs again when a dependency changes', async () => {
+        const todo = await createTodo('Write tests');
+        const labels: string[] = [];
+        const dispose = autorun(() => labels.push(todo.label));
+        expect(labels).toStrictEqual(['Write tests']);
+
+        todo.done = true;
+        await flushModelUpdates();
+        expect(labels).toStrictEqual(['Write tests', 'Write tests (done)']);
+
+        dispose();
+        todo.title = 'Write more tests';
+        await flushModelUpdates();
+        expect(labels).toHaveLength(2);
+        expect(todo.hasListeners).toBe(false);
+    });
+
+    it('tracks dependencies again on every run', async () => {
+        const a = await createTodo('A');
+        const b = await createTodo('B');
+        const fn = jest.fn(() => a.done ? b.title : a.title);
+        autorun(fn);
+
+        b.title = 'B2';
+        await flushModelUpdates();
+        expect(fn).toHaveBeenCalledTimes(1);
+
+        a.done = true;
+        await flushModelUpdates();
+        expect(fn).toHaveBeenCalledTimes(2);
+
+        b.title = 'B3';
+        await flushModelUpdates();
+        expect(fn).toHaveBeenCalledTimes(3);
+    });
+});
+
+describe('#reaction', () => {
+    it('only calls the effect when the value changes', async () => {
+        const todo = await createTodo('Write tests');
+        const effect = jest.fn();
+        reaction(() => todo.title.length > 0, effect);
+
+        todo.title = 'Write more tests';
+        await flushModelUpdates();
+        expect(effect).not.toHaveBeenCalled();
+
+        todo.title = '';
+        await flushModelUpdates();
+        expect(effect).toHaveBeenCalledWith(false, true);
+    });
+
+    it('calls the effect immediately when configured', async () => {
+        const todo = await createTodo('Write tests');
+        const effect = jest.fn();
+        reaction(() => todo.title, effect, { fireImmediately: true });
+        expect(effect).toHaveBeenCalledWith('Write tests', undefined);
+    });
+});
+
+class SearchModel extends Model {
+    @watch
+    public query: string = '';
+
+    @watch
+    public page: number = 1;
+
+    @watch
+    public tags: string[] = [];
+
+    public searches: [string, number, object][] = [];
+    public tagChanges: number = 0;
+    public debounced: object[] = [];
+    public throttled: object[] = [];
+
+    @reaction('query', 'page')
+    public search(previous: Partial<SearchModel>) {
+        this.searches.push([this.query, this.page, previous]);
+    }
+
+    @reaction('tags')
+    public tagsChanged() {
+        this.tagChanges++;
+    }
+
+    @reaction('query', { debounce: 100 })
+    public searchDebounced(previous: Partial<SearchModel>) {
+        this.debounced.push(previous);
+    }
+
+    @reaction('query', { throttle: 100 })
+    public searchThrottled(previous: Partial<SearchModel>) {
+        this.throttled.push(previous);
+    }
+}
+
+describe('@reaction', () => {
+    it('does not call the method for the initial values', async () => {
+        const model = new SearchModel();
+        await flushModelUpdates();
+
+        expect(model.searches).toHaveLength(0);
+        expect(model.tagChanges).toBe(0);
+    });
+
+    it('calls the method once per notification with the previous values', async () => {
+        const model = new SearchModel();
+        model.query = 'a';
+        model.query = 'ab';
+        model.page = 2;
+        await flushModelUpdates();
+
+        expect(model.searches).toStrictEqual([['ab', 2, { query: '', page: 1 }]]);
+
+        model.page = 3;
+        await flushModelUpdates();
+
+        expect(model.searches[1]).toStrictEqual(['ab', 3, { page: 2 }]);
+    });
+
+    it('calls the method when collections are changed in place', async () => {
+        const model = new SearchModel();
+        model.tags.push('news');
+        await flushModelUpdates();
+
+        expect(model.tagChanges).toBe(1);
+    });
+
+    it('forgets changes which were rolled back', async () => {
+        const model = new SearchModel();
+        await flushModelUpdates();
+
+        expect(() => batch(() => {
+            model.query = 'a';
+            throw new Error('failed');
+        }, { rollbackOnError: true })).toThrow('failed');
+
+        model.page = 2;
+        await flushModelUpdates();
+
+        expect(model.searches).toStrictEqual([['', 2, { page: 1 }]]);
+    });
+
+    it('does not add listeners to the model', () => {
+        const model = new SearchModel();
+        expect(model.hasListeners).toBe(false);
+    });
+
+    it('stops calling the method when the model is disposed', async () => {
+        const model = new SearchModel();
+        model.query = 'a';
+        model.dispose();
+        await flushModelUpdates();
+
+        expect(model.searches).toHaveLength(0);
+    });
+
+    describe('with fake timers', () => {
+        beforeEach(async () => {
+            // flushModelUpdates() leaves the scheduler's real timer pending, so let it run before the timers are replaced
+            await new Promise(resolve => setTimeout(resolve, 0));
+            jest.useFakeTimers();
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it('debounces calls', () => {
+            const model = new SearchModel();
+            jest.advanceTimersByTime(0);
+
+            model.query = 'a';
+            jest.advanceTimersByTime(50);
+            model.query = 'ab';
+            jest.advanceTimersByTime(50);
+            expect(model.debounced).toHaveLength(0);
+
+            jest.advanceTimersByTime(100);
+            expect(model.debounced).toStrictEqual([{ query: '' }]);
+        });
+
+        it('throttles calls', () => {
+            const model = new SearchModel();
+            jest.advanceTimersByTime(0);
+
+            model.query = 'a';
+            jest.advanceTimersByTime(0);
+            expect(model.throttled).toStrictEqual([{ query: '' }]);
+
+            model.query = 'ab';
+            jest.advanceTimersByTime(10);
+            model.query = 'abc';
+            jest.advanceTimersByTime(10);
+            expect(model.throttled).toHaveLength(1);
+
+            jest.advanceTimersByTime(100);
+            expect(model.throttled).toStrictEqual([{ query: '' }, { query: 'a' }]);
+        });
+
+        it('cancels delayed calls when the model is disposed', () => {
+            const model = new SearchModel();
+            jest.advanceTimersByTime(0);
+
+            model.query = 'a';
+            jest.advanceTimersByTime(0);
+            model.dispose();
+            jest.advanceTimersByTime(200);
+
+            expect(model.debounced).toHaveLength(0);
+        });
+    });
+});
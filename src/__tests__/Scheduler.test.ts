@@ -0,0 +1,95 @@
+import { Model, watch } from '../Model';
+import { batchedUpdatesScheduler, configureScheduler, Scheduler, SchedulerName } from '../Scheduler';
+import { flushModelUpdates } from '../testing';
+
+class CounterModel extends Model {
+    @watch
+    public value: number = 0;
+}
+
+class SyncCounterModel extends CounterModel {
+    public static scheduler: SchedulerName = 'sync';
+}
+
+describe('#configureScheduler', () => {
+    afterEach(() => {
+        configureScheduler('default');
+    });
+
+    it('delivers notifications in the order the changes were made', async () => {
+        const a = new CounterModel();
+        const b = new CounterModel();
+        await flushModelUpdates();
+
+        const calls: string[] = [];
+        a.addListener(() => calls.push('a'));
+        b.addListener(() => calls.push('b'));
+
+        a.value++;
+        b.value++;
+        await flushModelUpdates();
+        expect(calls).toStrictEqual(['a', 'b']);
+    });
+
+    it('delivers notifications immediately with the sync scheduler', () => {
+        configureScheduler('sync');
+        const counter = new CounterModel();
+        const listener = jest.fn();
+        counter.addListener(listener);
+
+        counter.value++;
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('delivers notifications with the microtask scheduler', async () => {
+        configureScheduler('microtask');
+        const counter = new CounterModel();
+        const listener = jest.fn();
+        counter.addListener(listener);
+
+        counter.value++;
+        expect(listener).not.toHaveBeenCalled();
+        await Promise.resolve();
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('uses custom scheduler functions', () => {
+        const pending: (() => void)[] = [];
+        const scheduler: Scheduler = fn => pending.push(fn);
+        configureScheduler(scheduler);
+
+        const counter = new CounterModel();
+        const listener = jest.fn();
+        counter.addListener(listener);
+        counter.value++;
+        expect(pending).toHaveLength(1);
+
+        pending[0]();
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('allows models to override the scheduler', () => {
+        const counter = new SyncCounterModel();
+        const listener = jest.fn();
+        counter.addListener(listener);
+
+        counter.value++;
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('throws for unknown schedulers', () => {
+        expect(() => configureScheduler('unknown' as SchedulerName)).toThrow(/Unknown scheduler/);
+    });
+});
+
+describe('#batchedUpdatesScheduler', () => {
+    it('wraps the flush in the batched updates function', () => {
+        const batchedUpdates = jest.fn((fn: () => void) => fn());
+        const scheduler = batchedUpdatesScheduler(batchedUpdates, 'sync');
+        const flush = jest.fn();
+
+        scheduler(flush);
+        expect(batchedUpdates).toHaveBeenCalledTimes(1);
+        expect(flush).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,129 @@
+/**
+ * @jest-environment node
+ */
+import { createElement, ReactElement } from 'react';
+import { renderToString } from 'react-dom/server';
+import { defineModel, Model, watch } from '../Model';
+import { prop } from '../Persistence';
+import { ModelProviders } from '../Providers';
+import { ModelSnapshot, SnapshotProvider } from '../Snapshot';
+
+class ArticleModel extends Model {
+    @prop() @watch
+    public title: string = '';
+
+    @prop() @watch
+    public views: number = 0;
+}
+
+class LocalModel extends Model {
+    @watch
+    public open: boolean = false;
+}
+
+const [, useArticle, , , , ArticleScope] = defineModel(ArticleModel);
+
+const Title = (): any => createElement('span', null, useArticle().title);
+
+function createArticle(title: string) {
+    const article = new ArticleModel();
+    article.title = title;
+    return article;
+}
+
+function renderWithSnapshot(snapshot: ModelSnapshot, ...children: ReactElement[]) {
+    return renderToString(createElement(SnapshotProvider, { snapshot }, ...children));
+}
+
+describe('ModelSnapshot', () => {
+    it('serializes the registered models', () => {
+        const article = new ArticleModel();
+        article.title = 'Hello';
+        const snapshot = new ModelSnapshot();
+        snapshot.register('ArticleModel', article);
+        snapshot.register('LocalModel', new LocalModel());
+
+        expect(JSON.parse(snapshot.serialize())).toStrictEqual({ ArticleModel: { title: 'Hello', views: 0 } });
+    });
+
+    it('restores state into models when they are registered', () => {
+        const snapshot = ModelSnapshot.parse('{"featured":{"title":"Hello","views":10}}');
+        const article = new ArticleModel();
+        snapshot.register('featured', article);
+
+        expect(article.title).toBe('Hello');
+        expect(article.views).toBe(10);
+    });
+
+    it('only restores state into each model once', () => {
+        const snapshot = new ModelSnapshot({ ArticleModel: { views: 10 } });
+        const article = new ArticleModel();
+        snapshot.register('ArticleModel', article);
+        article.views = 11;
+        snapshot.register('ArticleModel', article);
+
+        expect(article.views).toBe(11);
+    });
+
+    it('stops restoring state after it is released', () => {
+        const snapshot = new ModelSnapshot({ ArticleModel: { views: 10 } });
+        snapshot.release();
+        const article = new ArticleModel();
+        snapshot.register('ArticleModel', article);
+
+        expect(article.views).toBe(0);
+    });
+
+    it('throws when different models are registered with the same key', () => {
+        const snapshot = new ModelSnapshot();
+        snapshot.register('ArticleModel', new ArticleModel());
+
+        expect(() => snapshot.register('ArticleModel', new ArticleModel()))
+            .toThrow('ModelSnapshot: Another ArticleModel is already registered with the key ArticleModel');
+    });
+
+    it('allows models to be replaced after it is released', () => {
+        const snapshot = new ModelSnapshot();
+        snapshot.register('ArticleModel', new ArticleModel());
+        snapshot.release();
+
+        const article = createArticle('Hello');
+        snapshot.register('ArticleModel', article);
+        expect(snapshot.toJSON()).toStrictEqual({ ArticleModel: { title: 'Hello', views: 0 } });
+    });
+});
+
+describe('SnapshotProvider', () => {
+    it('restores the models of scopes rendered on the server by their id', () => {
+        const serverSnapshot = new ModelSnapshot();
+        const html = renderWithSnapshot(serverSnapshot,
+            createElement(ArticleScope, { id: 'one', create: () => createArticle('one') }, createElement(Title)),
+            createElement(ArticleScope, { id: 'two', create: () => createArticle('two') }, createElement(Title)));
+
+        expect(html).toBe('<span>one</span><span>two</span>');
+
+        const clientSnapshot = ModelSnapshot.parse(serverSnapshot.serialize());
+        expect(renderWithSnapshot(clientSnapshot,
+            createElement(ArticleScope, { id: 'one', create: () => new ArticleModel() }, createElement(Title)),
+            createElement(ArticleScope, { id: 'two', create: () => new ArticleModel() }, createElement(Title)))).toBe(html);
+    });
+
+    it('throws when scopes of the same model type have no id', () => {
+        const snapshot = new ModelSnapshot();
+
+        expect(() => renderWithSnapshot(snapshot,
+            createElement(ArticleScope, { create: () => createArticle('one') }, createElement(Title)),
+            createElement(ArticleScope, { create: () => createArticle('two') }, createElement(Title))))
+            .toThrow('ModelSnapshot: Another ArticleModel is already registered with the key ArticleModel');
+    });
+
+    it('keys models of ModelProviders by their id', () => {
+        const snapshot = new ModelSnapshot();
+        const html = renderWithSnapshot(snapshot, createElement(ModelProviders, {
+            models: [{ model: () => createArticle('main'), id: 'main' }, { model: createArticle('aside'), id: 'aside' }],
+        }, createElement(Title)));
+
+        expect(html).toBe('<span>aside</span>');
+        expect(snapshot.toJSON()).toStrictEqual({ main: { title: 'main', views: 0 }, aside: { title: 'aside', views: 0 } });
+    });
+});
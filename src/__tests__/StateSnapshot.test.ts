@@ -0,0 +1,155 @@
+import { createElement } from 'react';
+import TestRenderer, { act } from 'react-test-renderer';
+import { defineModel, Model, watch } from '../Model';
+import { prop } from '../Persistence';
+import { batch } from '../Batch';
+import { getSnapshot } from '../StateSnapshot';
+
+class Point {
+    @prop()
+    public x: number;
+
+    @prop()
+    public y: number;
+
+    constructor(x: number = 0, y: number = 0) {
+        this.x = x;
+        this.y = y;
+    }
+}
+
+class TodoModel extends Model {
+    @watch
+    public title: string = '';
+
+    @watch
+    public tags: string[] = [];
+
+    public notWatched: number = 0;
+}
+
+class ListModel extends Model {
+    @watch
+    public name: string = 'list';
+
+    @watch
+    public todos: TodoModel[] = [];
+
+    @watch
+    public positions: Map<string, Point> = new Map();
+
+    @prop()
+    public owner: string = 'nobody';
+}
+
+describe('#getSnapshot', () => {
+    it('returns the watched and prop fields as a frozen plain object', () => {
+        const list = new ListModel();
+        const todo = new TodoModel();
+        todo.tags.push('home');
+        list.todos.push(todo);
+        list.positions.set('a', new Point(1, 2));
+
+        const snapshot = getSnapshot(list);
+
+        expect(snapshot).toStrictEqual({
+            name: 'list',
+            todos: [{ title: '', tags: ['home'] }],
+            positions: { a: { x: 1, y: 2 } },
+            owner: 'nobody',
+        });
+        expect(Object.isFrozen(snapshot)).toBe(true);
+        expect(Object.isFrozen(snapshot.todos)).toBe(true);
+        expect(Object.isFrozen(snapshot.todos[0].tags)).toBe(true);
+        expect(Object.isFrozen(snapshot.positions.a)).toBe(true);
+    });
+
+    it('returns the same snapshot until the model changes', () => {
+        const todo = new TodoModel();
+        const snapshot = getSnapshot(todo);
+        expect(getSnapshot(todo)).toBe(snapshot);
+
+        todo.title = 'changed';
+        expect(getSnapshot(todo)).not.toBe(snapshot);
+        expect(getSnapshot(todo).title).toBe('changed');
+    });
+
+    it('updates snapshots inside batches', () => {
+        const todo = new TodoModel();
+        getSnapshot(todo);
+
+        batch(() => {
+            todo.title = 'changed';
+            expect(getSnapshot(todo).title).toBe('changed');
+        });
+    });
+
+    it('reuses unchanged parts of the previous snapshot', () => {
+        const list = new ListModel();
+        const first = new TodoModel();
+        const second = new TodoModel();
+        list.todos.push(first, second);
+
+        const before = getSnapshot(list);
+        first.tags.push('work');
+        const after = getSnapshot(list);
+
+        expect(after).not.toBe(before);
+        expect(after.todos).not.toBe(before.todos);
+        expect(after.todos[0]).not.toBe(before.todos[0]);
+        expect(after.todos[1]).toBe(before.todos[1]);
+        expect(after.todos[0].title).toBe(before.todos[0].title);
+        expect(after.positions).toBe(before.positions);
+    });
+
+    it('returns the previous snapshot when a notification did not change anything', () => {
+        const list = new ListModel();
+        const before = getSnapshot(list);
+
+        list.notifyListeners();
+        expect(getSnapshot(list)).toBe(before);
+    });
+
+    it('picks up changes made through useModel', () => {
+        const [TodoProvider, useTodo] = defineModel(TodoModel);
+        const todo = new TodoModel();
+        let proxy: TodoModel;
+        const TodoView = (): any => {
+            proxy = useTodo();
+            return proxy.title;
+        };
+
+        act(() => {
+            TestRenderer.create(createElement(TodoProvider, { value: todo }, createElement(TodoView)));
+        });
+
+        expect(getSnapshot(todo).title).toBe('');
+        proxy!.title = 'Shop';
+        expect(getSnapshot(todo).title).toBe('Shop');
+        expect(getSnapshot(proxy!)).toBe(getSnapshot(todo));
+    });
+
+    it('throws for models which reference themselves', () => {
+        class NodeModel extends Model {
+            @watch
+            public parent: NodeModel | null = null;
+
+            @watch
+            public children: NodeModel[] = [];
+        }
+
+        const parent = new NodeModel();
+        const child = new NodeModel();
+        child.parent = parent;
+        parent.children.push(child);
+
+        expect(() => getSnapshot(parent)).toThrow('getSnapshot: NodeModel references itself through its fields');
+        expect(getSnapshot(new NodeModel())).toStrictEqual({ parent: null, children: [] });
+
+        const data: any = { name: 'data' };
+        data.self = data;
+        const todo = new TodoModel();
+        todo['props'].set('data', data);
+        expect(() => getSnapshot(todo)).toThrow('getSnapshot: An object references itself through its fields');
+    });
+});
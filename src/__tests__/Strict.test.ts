@@ -0,0 +1,186 @@
+import * as React from 'react';
+import { createElement } from 'react';
+import TestRenderer, { act } from 'react-test-renderer';
+import { defineGlobalModel, defineModel, Model, watch } from '../Model';
+import { action } from '../Actions';
+import { batch } from '../Batch';
+import { History } from '../History';
+import { configureStrictMode } from '../Strict';
+
+class CounterModel extends Model {
+    @watch
+    public value: number = 0;
+
+    @watch
+    public items: number[] = [];
+
+    @action
+    public increment() {
+        this.value++;
+    }
+}
+
+class StartModel extends Model {
+    @watch
+    public value: number = 0;
+
+    constructor(start: number, previous?: StartModel) {
+        super();
+        this.value = start;
+
+        if (previous) {
+            previous.value = start;
+        }
+    }
+}
+
+function createObservedCounter() {
+    const counter = new CounterModel();
+    counter.addListener(() => {});
+    return counter;
+}
+
+const [, useCounter, , , , CounterScope] = defineModel(CounterModel);
+
+function whileRendering(fn: () => void) {
+    const owner = React['__SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED'].ReactCurrentOwner;
+    owner.current = {};
+    try {
+        fn();
+    } finally {
+        owner.current = null;
+    }
+}
+
+describe('#configureStrictMode', () => {
+    afterEach(() => {
+        configureStrictMode({ enforceActions: 'off', renderMutations: 'off' });
+        jest.restoreAllMocks();
+    });
+
+    it('allows setting the initial values', () => {
+        configureStrictMode({ enforceActions: 'throw' });
+        expect(() => new CounterModel()).not.toThrow();
+    });
+
+    it('throws for changes outside of actions', () => {
+        configureStrictMode({ enforceActions: 'throw' });
+        const counter = createObservedCounter();
+
+        expect(() => counter.value = 1).toThrow('CounterModel.value was changed outside of an action');
+        expect(counter.value).toBe(0);
+        expect(() => counter.items.push(1)).toThrow('CounterModel.items was changed outside of an action');
+    });
+
+    it('allows changes inside actions and batches', () => {
+        configureStrictMode({ enforceActions: 'throw' });
+        const counter = createObservedCounter();
+
+        counter.increment();
+        batch(() => counter.items.push(1));
+
+        expect(counter.value).toBe(1);
+        expect(counter.items).toStrictEqual([1]);
+    });
+
+    it('warns instead of throwing when configured', () => {
+        configureStrictMode({ enforceActions: 'warn' });
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        const counter = createObservedCounter();
+
+        counter.value = 1;
+
+        expect(counter.value).toBe(1);
+        expect(warn).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports changes made while rendering, even inside actions', () => {
+        configureStrictMode({ renderMutations: 'throw' });
+        const counter = createObservedCounter();
+
+        whileRendering(() => {
+            expect(() => counter.increment()).toThrow('CounterModel.value was changed while rendering');
+        });
+
+        counter.value = 1;
+        expect(counter.value).toBe(1);
+    });
+
+    it('does not check models without listeners', () => {
+        configureStrictMode({ enforceActions: 'throw', renderMutations: 'throw' });
+        const counter = new CounterModel();
+
+        counter.value = 1;
+        whileRendering(() => counter.value = 2);
+        expect(counter.value).toBe(2);
+    });
+
+    it('allows constructors to change fields', () => {
+        configureStrictMode({ enforceActions: 'throw', renderMutations: 'throw' });
+        expect(new StartModel(5).value).toBe(5);
+
+        whileRendering(() => {
+            expect(new StartModel(5).value).toBe(5);
+        });
+    });
+
+    it('checks observed models changed by the constructor of another model of the same type', () => {
+        configureStrictMode({ enforceActions: 'throw' });
+        const previous = new StartModel(1);
+        previous.addListener(() => {});
+
+        expect(() => new StartModel(5, previous)).toThrow('StartModel.value was changed outside of an action');
+    });
+
+    it('allows model scopes to set up the models they create while rendering', () => {
+        configureStrictMode({ enforceActions: 'throw', renderMutations: 'throw' });
+        const create = () => {
+            const counter = new CounterModel();
+            counter.value = 5;
+            return counter;
+        };
+
+        const Value = (): any => useCounter().value;
+
+        let renderer: TestRenderer.ReactTestRenderer;
+        act(() => {
+            renderer = TestRenderer.create(createElement(CounterScope, { create }, createElement(Value)));
+        });
+
+        expect(renderer!.toJSON()).toBe('5');
+        act(() => renderer.unmount());
+    });
+
+    it('allows global models to be set up while rendering', () => {
+        configureStrictMode({ enforceActions: 'throw', renderMutations: 'throw' });
+        const useGlobalCounter = defineGlobalModel(CounterModel, () => {
+            const counter = new CounterModel();
+            counter.value = 5;
+            return counter;
+        });
+
+        const Value = (): any => useGlobalCounter().value;
+
+        let renderer: TestRenderer.ReactTestRenderer;
+        act(() => {
+            renderer = TestRenderer.create(createElement(Value));
+        });
+
+        expect(renderer!.toJSON()).toBe('5');
+        act(() => renderer.unmount());
+        useGlobalCounter.reset();
+    });
+
+    it('allows history to undo and redo', () => {
+        configureStrictMode({ enforceActions: 'throw' });
+        const counter = createObservedCounter();
+        const history = new History(counter);
+
+        counter.increment();
+        history.undo();
+        expect(counter.value).toBe(0);
+
+        history.redo();
+        expect(counter.value).toBe(1);
+    });
+});
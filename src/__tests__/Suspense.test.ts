@@ -0,0 +1,125 @@
+import { createElement, Suspense } from 'react';
+import TestRenderer, { act, ReactTestRenderer } from 'react-test-renderer';
+import { defineModel, Model, watch } from '../Model';
+import { load, suspendUntilReady } from '../Suspense';
+import { flushModelUpdates } from '../testing';
+import { defer, Deferred } from './helpers';
+
+function getThrown(fn: () => void): any {
+    try {
+        fn();
+    } catch (e) {
+        return e;
+    }
+
+    return undefined;
+}
+
+class ProfileModel extends Model {
+    public handledErrors: any[] = [];
+    public request: Deferred<string> | null = null;
+
+    @watch
+    public name: string = '';
+
+    @load()
+    public async fetch() {
+        this.request = defer<string>();
+        this.name = await this.request.promise;
+    }
+
+    protected handleError(e: any) {
+        this.handledErrors.push(e);
+    }
+}
+
+class ReadyModel extends Model {
+    @watch
+    public ready: Promise<void> | undefined = undefined;
+}
+
+const [ProfileProvider, useProfile] = defineModel(ProfileModel);
+
+describe('#suspendUntilReady', () => {
+    it('does not suspend models which are not loading', () => {
+        expect(() => suspendUntilReady(new ProfileModel())).not.toThrow();
+    });
+
+    it('suspends while a load method is in progress', async () => {
+        const profile = new ProfileModel();
+        const loaded = profile.fetch();
+
+        const thrown = getThrown(() => suspendUntilReady(profile));
+        expect(thrown).toBeInstanceOf(Promise);
+
+        profile.request!.resolve('Garry');
+        await thrown;
+        await loaded;
+
+        expect(() => suspendUntilReady(profile)).not.toThrow();
+        expect(profile.name).toBe('Garry');
+    });
+
+    it('throws the error of the latest failed load', async () => {
+        const profile = new ProfileModel();
+        const error = new Error('offline');
+        const loaded = profile.fetch();
+        profile.request!.reject(error);
+
+        await expect(loaded).rejects.toBe(error);
+        expect(getThrown(() => suspendUntilReady(profile))).toBe(error);
+        expect(profile.handledErrors).toStrictEqual([error]);
+
+        profile.fetch();
+        expect(getThrown(() => suspendUntilReady(profile))).toBeInstanceOf(Promise);
+    });
+
+    it('suspends until the ready promise settles', async () => {
+        const model = new ReadyModel();
+        const ready = defer<void>();
+        model.ready = ready.promise;
+
+        const thrown = getThrown(() => suspendUntilReady(model));
+        expect(thrown).toBeInstanceOf(Promise);
+
+        ready.resolve();
+        await thrown;
+        expect(() => suspendUntilReady(model)).not.toThrow();
+    });
+
+    it('suspends components while a load started through useModel is in progress', async () => {
+        const profile = new ProfileModel();
+        let proxy: ProfileModel;
+        const Loader = (): any => {
+            proxy = useProfile();
+            return null;
+        };
+
+        const Name = (): any => useProfile({ suspend: true }).name || 'empty';
+
+        let renderer: ReactTestRenderer;
+        act(() => {
+            renderer = TestRenderer.create(createElement(ProfileProvider, { value: profile },
+                createElement(Loader),
+                createElement(Suspense, { fallback: 'loading' }, createElement(Name))));
+        });
+
+        expect(renderer!.toJSON()).toBe('empty');
+
+        let loaded: Promise<void>;
+        await act(async () => {
+            loaded = proxy.fetch();
+            await flushModelUpdates();
+        });
+
+        expect(renderer!.toJSON()).toBe('loading');
+
+        await act(async () => {
+            profile.request!.resolve('Garry');
+            await loaded;
+            await flushModelUpdates();
+        });
+
+        expect(renderer!.toJSON()).toBe('Garry');
+    });
+});
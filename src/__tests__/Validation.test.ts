@@ -0,0 +1,176 @@
+import { Model, watch } from '../Model';
+import { copyInto, prop, setupSerialization } from '../Persistence';
+import { getErrors, isValid, pattern, range, required, validate, validateModel, ValidationError } from '../Validation';
+import { flushModelUpdates } from '../testing';
+
+const takenNames = new Set(['admin']);
+
+class SignupModel extends Model {
+    public handledErrors: any[] = [];
+
+    @prop()
+    @watch
+    @required()
+    @pattern(/^[a-z]+$/, 'Lowercase letters only')
+    @validate(async (value: string) => takenNames.has(value) ? 'Taken' : undefined)
+    public name: string = '';
+
+    @prop()
+    @watch
+    @range(13, 120)
+    public age: number | undefined = undefined;
+
+    protected handleError(e: any) {
+        this.handledErrors.push(e);
+    }
+}
+
+class Timestamp {
+    constructor(public readonly value: number) {
+    }
+}
+
+setupSerialization(Timestamp, {
+    serialize: timestamp => timestamp.value,
+    deserialize: value => new Timestamp(value),
+});
+
+class AddressModel extends Model {
+    @prop()
+    @watch
+    public city: string = '';
+}
+
+class EventModel extends Model {
+    @prop({ ctor: Timestamp })
+    @watch
+    @validate((value: Timestamp | null) => value && !(value instanceof Timestamp) ? 'Not a timestamp' : undefined)
+    @validate((value: Timestamp | null) => value && value.value < 0 ? 'Must not be negative' : undefined)
+    public start: Timestamp | null = null;
+
+    @prop({ ctor: AddressModel })
+    @watch
+    @validate((value: AddressModel | null) => value && !(value instanceof AddressModel) ? 'Not an address' : undefined)
+    @validate((value: AddressModel | null) => value && !value.city ? 'Enter a city' : undefined)
+    public address: AddressModel | null = null;
+}
+
+class AdminSignupModel extends SignupModel {
+    @watch
+    @validate((value: string) => value.length < 8 ? 'Too short' : undefined)
+    public password: string = '';
+}
+
+describe('validation', () => {
+    it('validates fields the first time errors are read', () => {
+        const model = new SignupModel();
+
+        expect(isValid(model)).toBe(false);
+        expect(getErrors(model)).toStrictEqual(new Map([['name', 'Required']]));
+    });
+
+    it('runs validators in the order they are declared', () => {
+        const model = new SignupModel();
+        model.name = 'Bob';
+
+        expect(getErrors(model).get('name')).toBe('Lowercase letters only');
+
+        model.age = 5;
+        expect(getErrors(model).get('age')).toBe('Must be between 13 and 120');
+    });
+
+    it('includes validators of base types', () => {
+        const model = new AdminSignupModel();
+        model.name = 'bob';
+
+        expect(getErrors(model)).toStrictEqual(new Map([['password', 'Too short']]));
+    });
+
+    it('notifies listeners when the errors change', async () => {
+        const model = new SignupModel();
+        expect(isValid(model)).toBe(false);
+        await flushModelUpdates();
+
+        const listener = jest.fn();
+        model.addListener(listener, new Set(['isValid']));
+
+        model.name = 'Bob';
+        await flushModelUpdates();
+        expect(listener).not.toHaveBeenCalled();
+
+        model.name = 'bob';
+        await flushModelUpdates();
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener.mock.calls[0][1]).toStrictEqual(new Set(['name', 'errors', 'isValid']));
+        expect(isValid(model)).toBe(true);
+    });
+
+    it('reports async validation results when they finish', async () => {
+        const model = new SignupModel();
+        model.name = 'admin';
+
+        expect(isValid(model)).toBe(true);
+        await flushModelUpdates();
+        expect(getErrors(model).get('name')).toBe('Taken');
+    });
+
+    it('ignores async results for values which were replaced', async () => {
+        const model = new SignupModel();
+        expect(isValid(model)).toBe(false);
+
+        model.name = 'admin';
+        model.name = 'bob';
+        expect(await validateModel(model)).toBe(true);
+        expect(getErrors(model).size).toBe(0);
+    });
+
+    it('waits for async validators in validateModel', async () => {
+        const model = new SignupModel();
+        model.name = 'admin';
+
+        expect(await validateModel(model)).toBe(false);
+        expect(getErrors(model).get('name')).toBe('Taken');
+    });
+});
+
+describe('#copyInto with validation', () => {
+    it('rejects invalid values without changing the model', () => {
+        const model = new SignupModel();
+        model.name = 'bob';
+
+        expect(() => copyInto(model, { name: 'Bob', age: 200 }, { validate: 'reject' })).toThrow(ValidationError);
+        expect(model.name).toBe('bob');
+        expect(model.age).toBeUndefined();
+    });
+
+    it('rejects values after deserializing them', () => {
+        const model = new EventModel();
+
+        copyInto(model, { start: 10, address: { city: 'Oslo' } }, { validate: 'reject' });
+        expect(model.start).toStrictEqual(new Timestamp(10));
+        expect(model.address!.city).toBe('Oslo');
+
+        let error: any;
+        try {
+            copyInto(model, { start: -1, address: { city: '' } }, { validate: 'reject' });
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.errors).toStrictEqual(new Map([['start', 'Must not be negative'], ['address', 'Enter a city']]));
+        expect(model.start!.value).toBe(10);
+        expect(model.address!.city).toBe('Oslo');
+    });
+
+    it('reports invalid values to the error handler', () => {
+        const model = new SignupModel();
+
+        copyInto(model, { name: 'bob', age: 200 }, { validate: 'report' });
+
+        expect(model.age).toBe(200);
+        expect(model.handledErrors).toHaveLength(1);
+        expect(model.handledErrors[0]).toBeInstanceOf(ValidationError);
+        expect(model.handledErrors[0].errors).toStrictEqual(new Map([['age', 'Must be between 13 and 120']]));
+    });
+});
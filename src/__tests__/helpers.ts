@@ -0,0 +1,28 @@
+import { act } from 'react-test-renderer';
+import { flushModelUpdates } from '../testing';
+
+export type Deferred<T> = { promise: Promise<T>, resolve: (value: T) => void, reject: (error: any) => void };
+
+/**
+ * Creates a promise which the test settles itself.
+ */
+export function defer<T>(): Deferred<T> {
+    const deferred = {} as Deferred<T>;
+    deferred.promise = new Promise<T>((resolve, reject) => {
+        deferred.resolve = resolve;
+        deferred.reject = reject;
+    });
+
+    return deferred;
+}
+
+/**
+ * Runs the function inside act() and delivers the model notifications it caused, so the components re-render before it returns.
+ * @param fn The function which changes models. Returned promises are awaited first, e.g. async actions.
+ */
+export async function update(fn: () => any) {
+    await act(async () => {
+        await fn();
+        await flushModelUpdates();
+    });
+}
@@ -1,2 +1,19 @@
 export * from './Model';
+export * from './Equality';
+export { inject, createWithDependencies } from './Injection';
+export * from './Providers';
+export { ModelSnapshot, SnapshotProvider, SnapshotProviderProps } from './Snapshot';
+export { getSnapshot, FrozenState } from './StateSnapshot';
+export { batch, isBatching, BatchOptions } from './Batch';
+export * from './Actions';
+export * from './Suspense';
+export { required, range, pattern, validate, validateModel, getErrors, isValid, ValidationError, Validator, ValidationResult } from './Validation';
+export * from './Forms';
+export { subscribe, autorun, reaction, Unsubscribe, ModelChange, ReactionOptions, ReactionMethodOptions } from './Reactions';
+export * from './History';
+export { configureScheduler, batchedUpdatesScheduler, Scheduler, SchedulerName } from './Scheduler';
+export * from './Inspector';
+export { addErrorHandler, configureErrorHandling, ErrorPhase, ModelErrorInfo, ModelErrorHandler, ErrorHandlingOptions } from './Errors';
+export { configureStrictMode, StrictModeLevel, StrictModeOptions } from './Strict';
+export { configureListenerDiagnostics, getListenerReport, ListenerDiagnosticsOptions, ListenerReportEntry } from './Diagnostics';
 export * from './Persistence';
@@ -0,0 +1,110 @@
+import { createElement, ReactElement } from 'react';
+import { defineModel, Model, watch } from '../../Model';
+import { asyncAction } from '../../Actions';
+import { ModelProviders } from '../../Providers';
+import { flushModelUpdates, getWatchedValues, recordNotifications, renderWithModels } from '..';
+
+class TodoModel extends Model {
+    @watch
+    public title: string = '';
+
+    @watch
+    public items: string[] = [];
+
+    @asyncAction()
+    public async load() {
+        this.title = 'loaded';
+    }
+}
+
+defineModel(TodoModel);
+
+describe('#flushModelUpdates', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('delivers pending notifications without advancing timers', async () => {
+        const todo = new TodoModel();
+        await flushModelUpdates();
+
+        const listener = jest.fn();
+        todo.addListener(listener);
+
+        todo.title = 'changed';
+        expect(listener).not.toHaveBeenCalled();
+
+        await flushModelUpdates();
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('delivers notifications caused by resolved async actions', async () => {
+        const todo = new TodoModel();
+        await flushModelUpdates();
+
+        const recorder = recordNotifications(todo);
+        todo.load();
+        await flushModelUpdates();
+
+        expect(recorder.props).toStrictEqual(new Set(['isPending', 'title']));
+    });
+});
+
+describe('#recordNotifications', () => {
+    it('records the props of each notification', async () => {
+        const todo = new TodoModel();
+        await flushModelUpdates();
+
+        const recorder = recordNotifications(todo, ['title']);
+        todo.title = 'a';
+        await flushModelUpdates();
+        todo.items.push('b');
+        await flushModelUpdates();
+        todo.title = 'c';
+        await flushModelUpdates();
+
+        expect(recorder.notifications).toStrictEqual([['title'], ['title']]);
+
+        recorder.clear();
+        recorder.stop();
+        todo.title = 'd';
+        await flushModelUpdates();
+
+        expect(recorder.notifications).toStrictEqual([]);
+        expect(todo.hasListeners).toBe(false);
+    });
+});
+
+describe('#getWatchedValues', () => {
+    it('returns the watched fields with collections unwrapped', () => {
+        const todo = new TodoModel();
+        todo.items.push('a');
+
+        const values = getWatchedValues(todo);
+        expect(values).toStrictEqual({ title: '', items: ['a'] });
+        expect(values.items).not.toBe(todo.items);
+    });
+});
+
+describe('#renderWithModels', () => {
+    it('wraps the element in providers for the models', () => {
+        const todo = new TodoModel();
+        const ui = createElement('div');
+
+        const render = jest.fn((wrapped: ReactElement) => wrapped);
+        const result = renderWithModels(ui, { models: [todo], render });
+
+        expect(result.type).toBe(ModelProviders);
+        expect(result.props.models).toStrictEqual([todo]);
+        expect(result.props.children).toBe(ui);
+    });
+
+    it('explains how to render without @testing-library/react', () => {
+        expect(() => renderWithModels(createElement('div'), { models: [] }))
+            .toThrow('renderWithModels: Install @testing-library/react or pass a render function');
+    });
+});
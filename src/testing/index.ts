@@ -0,0 +1,118 @@
+import { createElement, ReactElement } from 'react';
+import { Model } from '../Model';
+import { ModelProviders, ProvidedModel } from '../Providers';
+import { flushAllTasks } from '../Scheduler';
+import { unwrapValue } from '../Observable';
+
+export interface RenderWithModelsOptions<TResult> {
+    /**
+     * The models to provide to the rendered element.
+     */
+    models: readonly ProvidedModel[];
+
+    /**
+     * The function which renders the wrapped element. Defaults to `render` from `@testing-library/react`.
+     */
+    render?: (ui: ReactElement) => TResult;
+}
+
+export interface NotificationRecorder {
+    /**
+     * The props of each notification delivered to the recorder, oldest first. Contains '*' if the whole model changed.
+     */
+    readonly notifications: readonly string[][];
+
+    /**
+     * All props the recorder was notified about.
+     */
+    readonly props: ReadonlySet<string>;
+
+    /**
+     * Forgets the recorded notifications.
+     */
+    clear(): void;
+
+    /**
+     * Stops recording notifications.
+     */
+    stop(): void;
+}
+
+/**
+ * Delivers all pending model notifications immediately, then waits for promises which were already resolved
+ * (e.g. finished async actions) and delivers the notifications they caused.
+ */
+export async function flushModelUpdates() {
+    flushAllTasks();
+    await Promise.resolve();
+    flushAllTasks();
+}
+
+/**
+ * Renders the element inside {@link ModelProviders} for the given models.
+ * @returns The result of the render function.
+ */
+export function renderWithModels<TResult = any>(ui: ReactElement, options: RenderWithModelsOptions<TResult>): TResult {
+    const render = options.render ?? defaultRender;
+    return render(createElement(ModelProviders, { models: options.models }, ui));
+}
+
+/**
+ * Records the props of every notification delivered by the model.
+ * @param model The model to record notifications from.
+ * @param props Only record notifications about these props.
+ */
+export function recordNotifications(model: Model, props?: readonly string[]): NotificationRecorder {
+    let notifications: string[][] = [];
+    const listener = (version: number, changedProps: ReadonlySet<string>) => {
+        notifications.push([...changedProps]);
+    };
+
+    model.addListener(listener, props ? new Set(props) : undefined);
+
+    return {
+        get notifications() {
+            return notifications;
+        },
+
+        get props() {
+            const props = new Set<string>();
+            for (const notification of notifications) {
+                notification.forEach(prop => props.add(prop));
+            }
+
+            return props;
+        },
+
+        clear() {
+            notifications = [];
+        },
+
+        stop() {
+            model.removeListener(listener);
+        },
+    };
+}
+
+/**
+ * Gets the current values of the model's {@link watch()}ed fields, for comparing models in tests.
+ */
+export function getWatchedValues(model: Model): Record<string | symbol, any> {
+    const values: Record<string | symbol, any> = {};
+    for (const [key, value] of model['props'] as Map<string | symbol, any>) {
+        values[key as string] = unwrapValue(value);
+    }
+
+    return values;
+}
+
+function defaultRender(ui: ReactElement): any {
+    let testingLibrary: any;
+    try {
+        testingLibrary = require('@testing-library/react');
+    } catch {
+        throw new Error('renderWithModels: Install @testing-library/react or pass a render function');
+    }
+
+    return testingLibrary.render(ui);
+}